@@ -0,0 +1,149 @@
+import { createElement, useRef, type ReactNode } from "react";
+import type { DocumentBlock, DocumentInline, DocumentStructure } from "@shared/schema";
+
+interface DocumentStructureViewProps {
+  resultId: string;
+  structure: DocumentStructure;
+}
+
+const headingClasses: Record<number, string> = {
+  1: "text-lg font-semibold",
+  2: "text-base font-semibold",
+  3: "text-sm font-semibold",
+};
+
+export function DocumentStructureView({ resultId, structure }: DocumentStructureViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Scrolls inside the preview, note anchors and outline entries both use it
+  const scrollTo = (selector: string) => {
+    const container = containerRef.current;
+    const target = container?.querySelector<HTMLElement>(selector);
+    if (container && target) {
+      container.scrollTo({ top: target.offsetTop, behavior: "smooth" });
+    }
+  };
+
+  const renderInlines = (content: DocumentInline[]) =>
+    content.map((inline, index) => {
+      let node: ReactNode = inline.text;
+      if (inline.bold) node = <strong>{node}</strong>;
+      if (inline.italic) node = <em>{node}</em>;
+      if (inline.href?.startsWith("#")) {
+        // Footnote, endnote and comment references
+        const id = inline.href.slice(1);
+        return (
+          <sup key={index}>
+            <button className="text-primary hover:underline" onClick={() => scrollTo(`[data-note="${id}"]`)}>
+              {node}
+            </button>
+          </sup>
+        );
+      }
+      // Only web and mail links are clickable, a document could carry javascript: URLs
+      if (inline.href && /^(https?:|mailto:)/i.test(inline.href)) {
+        return (
+          <a key={index} href={inline.href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+            {node}
+          </a>
+        );
+      }
+      return <span key={index}>{node}</span>;
+    });
+
+  // Top level headings carry their block index, the outline jumps to them
+  const renderBlock = (block: DocumentBlock, index: number, nested = false): ReactNode => {
+    switch (block.type) {
+      case "heading":
+        return createElement(
+          `h${Math.min(block.level, 6)}`,
+          { key: index, "data-block": nested ? undefined : index, className: headingClasses[block.level] ?? "text-sm font-medium" },
+          renderInlines(block.content)
+        );
+      case "paragraph":
+        return <p key={index} className="whitespace-pre-wrap">{renderInlines(block.content)}</p>;
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List key={index} className={`${block.ordered ? "list-decimal" : "list-disc"} pl-6 space-y-1`}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="space-y-1">{item.map((child, childIndex) => renderBlock(child, childIndex, true))}</li>
+            ))}
+          </List>
+        );
+      }
+      case "table": {
+        const [header, ...rows] = block.rows;
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="w-full border-collapse text-xs">
+              {header && (
+                <thead>
+                  <tr>
+                    {header.map((cell, cellIndex) => (
+                      <th key={cellIndex} className="border border-border bg-muted px-2 py-1 text-left font-medium whitespace-pre-wrap">{cell}</th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody>
+                {rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="border border-border px-2 py-1 align-top whitespace-pre-wrap">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+      case "image":
+        return (
+          <figure key={index} className="rounded border border-dashed border-border p-2 text-xs text-muted-foreground">
+            <figcaption className="font-medium">
+              Image{block.altText && `: ${block.altText}`}
+              {block.confidence !== undefined && ` · OCR ${Math.round(block.confidence)}% confidence`}
+            </figcaption>
+            {block.text && <pre className="mt-1 whitespace-pre-wrap font-mono text-foreground">{block.text}</pre>}
+            {block.error && <p className="mt-1 text-destructive">{block.error}</p>}
+          </figure>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {structure.outline.length > 0 && (
+        <nav className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground" data-testid={`document-outline-${resultId}`}>
+          <span className="mr-1">Outline</span>
+          {structure.outline.map(entry => (
+            <button
+              key={entry.block}
+              className="rounded px-1.5 py-0.5 hover:bg-muted hover:text-foreground"
+              style={{ marginLeft: `${(entry.level - 1) * 0.5}rem` }}
+              onClick={() => scrollTo(`[data-block="${entry.block}"]`)}
+            >
+              {entry.text}
+            </button>
+          ))}
+        </nav>
+      )}
+
+      <div ref={containerRef} className="relative bg-muted/50 rounded-lg p-4 max-h-64 overflow-y-auto space-y-3 text-sm text-foreground">
+        {structure.blocks.map((block, index) => renderBlock(block, index))}
+
+        {structure.notes.length > 0 && (
+          <section className="border-t border-border pt-2 space-y-1 text-xs text-muted-foreground">
+            {structure.notes.map(note => (
+              <p key={note.id} data-note={note.id}>
+                <span className="font-medium">{note.label}</span> {note.text}
+              </p>
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
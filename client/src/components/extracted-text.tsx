@@ -0,0 +1,115 @@
+import { useEffect, useRef } from "react";
+import { DocumentStructureView } from "@/components/document-structure";
+import type { FileProcessingResult, ResultMetadata, SearchMatch } from "@shared/schema";
+
+interface ExtractedTextProps {
+  result: FileProcessingResult;
+  highlight?: SearchMatch; // Search match in extractedText to mark and scroll to
+  onClearHighlight?: () => void;
+}
+
+export function ExtractedText({ result, highlight, onClearHighlight }: ExtractedTextProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const markRef = useRef<HTMLElement>(null);
+  const metadata = (result.metadata ?? {}) as ResultMetadata;
+  const pages = metadata.pages?.filter(page => page.text.length > 0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const mark = markRef.current;
+    if (highlight && container && mark) {
+      container.scrollTo({ top: Math.max(mark.offsetTop - container.clientHeight / 3, 0), behavior: "smooth" });
+    }
+  }, [highlight]);
+
+  // Match offsets are in the flat text, so pages and document structure give way to it while one is shown
+  if (highlight && result.extractedText) {
+    const text = result.extractedText;
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Search match</span>
+          {onClearHighlight && (
+            <button className="rounded px-1.5 py-0.5 hover:bg-muted hover:text-foreground" onClick={onClearHighlight} data-testid={`clear-highlight-${result.id}`}>
+              Clear
+            </button>
+          )}
+        </div>
+        <div ref={containerRef} className="relative bg-muted/50 rounded-lg p-4 max-h-64 overflow-y-auto">
+          <pre className="text-sm text-foreground whitespace-pre-wrap font-mono leading-relaxed">
+            {text.slice(0, highlight.start)}
+            <mark ref={markRef} className="rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-500/40" data-testid={`search-highlight-${result.id}`}>
+              {text.slice(highlight.start, highlight.end)}
+            </mark>
+            {text.slice(highlight.end)}
+          </pre>
+        </div>
+      </div>
+    );
+  }
+
+  // DOCX uploads keep their headings, lists, tables and links
+  if (metadata.structure) {
+    return <DocumentStructureView resultId={result.id} structure={metadata.structure} />;
+  }
+
+  // Single-page and non-paged documents render as plain text
+  if (!pages || pages.length < 2) {
+    return (
+      <div className="bg-muted/50 rounded-lg p-4 max-h-64 overflow-y-auto">
+        <pre className="text-sm text-foreground whitespace-pre-wrap font-mono leading-relaxed">
+          {result.extractedText}
+        </pre>
+      </div>
+    );
+  }
+
+  const jumpToPage = (pageNumber: number) => {
+    const container = containerRef.current;
+    const page = container?.querySelector<HTMLElement>(`[data-page="${pageNumber}"]`);
+    if (container && page) {
+      container.scrollTo({ top: page.offsetTop, behavior: "smooth" });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+        <span className="mr-1">
+          {metadata.document ? `${pages.length} of ${metadata.document.pageCount} pages` : `${pages.length} pages`}
+          {metadata.document?.title && ` · ${metadata.document.title}`}
+        </span>
+        {pages.map(page => (
+          <button
+            key={page.pageNumber}
+            className="rounded px-1.5 py-0.5 hover:bg-muted hover:text-foreground"
+            onClick={() => jumpToPage(page.pageNumber)}
+            data-testid={`page-link-${result.id}-${page.pageNumber}`}
+          >
+            {page.pageNumber}
+          </button>
+        ))}
+      </div>
+
+      <div ref={containerRef} className="relative bg-muted/50 rounded-lg p-4 max-h-64 overflow-y-auto space-y-4">
+        {pages.map(page => (
+          <section key={page.pageNumber} data-page={page.pageNumber}>
+            <div className="flex items-center space-x-2 mb-2 text-xs text-muted-foreground">
+              <span className="font-medium">Page {page.pageNumber}</span>
+              {page.method === "ocr" && (
+                <span data-testid={`page-ocr-${result.id}-${page.pageNumber}`}>
+                  OCR{page.languages && ` (${page.languages})`}
+                  {page.confidence !== undefined && ` · ${Math.round(page.confidence)}% confidence`}
+                </span>
+              )}
+              <div className="flex-1 border-t border-border" />
+            </div>
+            <pre className="text-sm text-foreground whitespace-pre-wrap font-mono leading-relaxed">
+              {page.text}
+            </pre>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import type { FileProcessingResult, OCRWord, ResultMetadata } from "@shared/schema";
+
+interface OcrImageViewerProps {
+  result: FileProcessingResult;
+  readOnly?: boolean; // Words can be looked at but not corrected
+}
+
+// Heatmap buckets for word confidence
+const confidenceClass = (confidence: number) => {
+  if (confidence >= 85) return "fill-emerald-500/15 stroke-emerald-500";
+  if (confidence >= 60) return "fill-amber-500/25 stroke-amber-500";
+  return "fill-red-500/30 stroke-red-500";
+};
+
+export function OcrImageViewer({ result, readOnly = false }: OcrImageViewerProps) {
+  const metadata = (result.metadata ?? {}) as ResultMetadata;
+  const words = metadata.ocrWords ?? [];
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [showBoxes, setShowBoxes] = useState(true);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const { toast } = useToast();
+
+  const updateWordMutation = useMutation({
+    mutationFn: async ({ index, text }: { index: number; text: string }) => {
+      return apiRequest('PATCH', `/api/results/${result.id}/ocr-words/${index}`, { text });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save word",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (index: number) => {
+    setEditing(index);
+    setDraft(words[index].text);
+  };
+
+  const editingWord: OCRWord | undefined = editing !== null ? words[editing] : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>{words.length} words recognized</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-emerald-500" />85%+</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-amber-500" />60–85%</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-red-500" />below 60%</span>
+        <label className="ml-auto flex items-center gap-2">
+          <Switch checked={showBoxes} onCheckedChange={setShowBoxes} data-testid={`ocr-boxes-toggle-${result.id}`} />
+          Word boxes
+        </label>
+      </div>
+
+      <div className="bg-muted/50 rounded-lg p-2 max-h-96 overflow-auto">
+        <div className="relative inline-block">
+          <img
+            src={`/api/results/${result.id}/file`}
+            alt={result.originalName}
+            className="block max-w-full h-auto"
+            onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            data-testid={`ocr-image-${result.id}`}
+          />
+          {imageSize && showBoxes && (
+            // Boxes are in image pixels, the viewBox scales them with the displayed image
+            <svg
+              className="absolute inset-0 h-full w-full"
+              viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+              preserveAspectRatio="none"
+            >
+              {words.map((word, index) => (
+                <rect
+                  key={index}
+                  x={word.bbox.x0}
+                  y={word.bbox.y0}
+                  width={word.bbox.x1 - word.bbox.x0}
+                  height={word.bbox.y1 - word.bbox.y0}
+                  className={`${confidenceClass(word.confidence)} ${readOnly ? "" : "cursor-pointer hover:stroke-primary"}`}
+                  strokeWidth={editing === index ? 4 : 2}
+                  vectorEffect="non-scaling-stroke"
+                  onClick={readOnly ? undefined : () => startEditing(index)}
+                  data-testid={`ocr-word-${result.id}-${index}`}
+                >
+                  <title>{`${word.text} · ${word.confidence}%${word.edited ? " · edited" : ""}`}</title>
+                </rect>
+              ))}
+            </svg>
+          )}
+        </div>
+      </div>
+
+      {editingWord && editing !== null && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            if (draft.trim() && draft.trim() !== editingWord.text) {
+              updateWordMutation.mutate({ index: editing, text: draft.trim() });
+            } else {
+              setEditing(null);
+            }
+          }}
+        >
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            Word {editing + 1} · {editingWord.confidence}% confidence
+          </span>
+          <Input
+            className="h-8"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            autoFocus
+            data-testid={`ocr-word-input-${result.id}`}
+          />
+          <Button type="submit" size="sm" disabled={updateWordMutation.isPending}>
+            Save
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import type { SearchHit, SearchMatch, SearchResponse, SearchSnippet } from "@shared/schema";
+import { Search } from "lucide-react";
+
+interface ResultSearchProps {
+  onSelect: (hit: SearchHit, match: SearchMatch) => void;
+}
+
+export function ResultSearch({ onSelect }: ResultSearchProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const select = (hit: SearchHit, match: SearchMatch) => {
+    onSelect(hit, match);
+    setOpen(false);
+  };
+
+  return (
+    <div
+      className="relative w-full max-w-md"
+      onBlur={e => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        className="pl-8"
+        placeholder={'Search documents, "phrases" or prefix*'}
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={e => {
+          if (e.key === "Escape") setOpen(false);
+        }}
+        data-testid="document-search-input"
+      />
+      {open && debouncedQuery && <SearchHits query={debouncedQuery} onSelect={select} />}
+    </div>
+  );
+}
+
+// Mounted only while the panel is open, so reopening it searches again and picks up new uploads
+function SearchHits({ query, onSelect }: { query: string; onSelect: (hit: SearchHit, match: SearchMatch) => void }) {
+  const { data, isLoading, error } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(query)}&limit=20`],
+    staleTime: 0,
+  });
+
+  return (
+    <div className="absolute left-0 right-0 top-full mt-1 max-h-96 overflow-y-auto rounded-md border border-border bg-popover p-1 shadow-md z-50">
+      {isLoading ? (
+        <p className="px-3 py-2 text-sm text-muted-foreground">Searching...</p>
+      ) : error ? (
+        <p className="px-3 py-2 text-sm text-destructive">{error.message}</p>
+      ) : !data?.hits.length ? (
+        <p className="px-3 py-2 text-sm text-muted-foreground">No documents match</p>
+      ) : (
+        <>
+          <p className="px-3 py-1 text-xs text-muted-foreground">
+            {data.total} {data.total === 1 ? "document" : "documents"}
+          </p>
+          {data.hits.map(hit => (
+            <div key={hit.id} className="rounded px-2 py-1.5" data-testid={`search-hit-${hit.id}`}>
+              <p className="text-sm font-medium text-foreground truncate">{hit.originalName}</p>
+              {hit.snippets.map(snippet => (
+                <button
+                  key={snippet.start}
+                  className="block w-full rounded px-1 py-0.5 text-left text-xs text-muted-foreground hover:bg-muted"
+                  onClick={() => onSelect(hit, firstMatchIn(snippet))}
+                >
+                  <SnippetText snippet={snippet} />
+                </button>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function SnippetText({ snippet }: { snippet: SearchSnippet }) {
+  const parts = [];
+  let cursor = 0;
+  for (const highlight of snippet.highlights) {
+    parts.push(snippet.text.slice(cursor, highlight.start));
+    parts.push(
+      <mark key={highlight.start} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+        {snippet.text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  }
+  parts.push(snippet.text.slice(cursor));
+
+  return (
+    <>
+      {snippet.start > 0 && "…"}
+      {parts}
+    </>
+  );
+}
+
+// Snippet highlights are relative to the excerpt, the card needs offsets in the whole text
+function firstMatchIn(snippet: SearchSnippet): SearchMatch {
+  const highlight = snippet.highlights[0];
+  return { start: snippet.start + highlight.start, end: snippet.start + highlight.end };
+}
@@ -0,0 +1,113 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { UserWorkspace } from "@shared/schema";
+import { Plus } from "lucide-react";
+
+const NEW_WORKSPACE = "new";
+
+// Results, searches and batches all belong to the previous workspace, only the user carries over
+const resetWorkspaceQueries = () =>
+  queryClient.resetQueries({ predicate: query => query.queryKey[0] !== "/api/user" });
+
+export function WorkspaceSwitcher() {
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+
+  const { workspaces, workspace: current } = useWorkspace();
+
+  const selectMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/workspaces/${id}/select`);
+    },
+    onSuccess: resetWorkspaceQueries,
+    onError: (error) => {
+      toast({ title: "Could not switch workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (workspaceName: string) => {
+      const response = await apiRequest("POST", "/api/workspaces", { name: workspaceName });
+      return (await response.json()) as UserWorkspace;
+    },
+    onSuccess: () => {
+      setCreating(false);
+      setName("");
+      resetWorkspaceQueries();
+    },
+    onError: (error) => {
+      toast({ title: "Could not create workspace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) createMutation.mutate(name.trim());
+  };
+
+  return (
+    <>
+      <Select
+        value={current?.id ?? ""}
+        onValueChange={value => {
+          if (value === NEW_WORKSPACE) {
+            setCreating(true);
+          } else if (value !== current?.id) {
+            selectMutation.mutate(value);
+          }
+        }}
+        disabled={selectMutation.isPending}
+      >
+        <SelectTrigger className="w-48" data-testid="workspace-select">
+          <SelectValue placeholder="Workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map(workspace => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+              <span className="ml-2 text-xs text-muted-foreground">{workspace.role}</span>
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE} data-testid="new-workspace-option">
+            <span className="flex items-center">
+              <Plus className="h-3 w-3 mr-1" />
+              New workspace
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="sm:max-w-sm">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New workspace</DialogTitle>
+            </DialogHeader>
+            <Input
+              placeholder="Workspace name"
+              value={name}
+              maxLength={100}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+              data-testid="new-workspace-name"
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim() || createMutation.isPending} data-testid="create-workspace">
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient"
+import type { PublicUser } from "@shared/schema"
+
+interface Credentials {
+  username: string
+  password: string
+}
+
+// The logged in user, null when there is none
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  })
+
+  // Everything cached belonged to the previous session
+  const startSession = (user: PublicUser) => {
+    queryClient.clear()
+    queryClient.setQueryData(["/api/user"], user)
+  }
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/login", credentials)
+      return (await response.json()) as PublicUser
+    },
+    onSuccess: startSession,
+  })
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/register", credentials)
+      return (await response.json()) as PublicUser
+    },
+    onSuccess: startSession,
+  })
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout")
+    },
+    onSuccess: () => {
+      queryClient.clear()
+      queryClient.setQueryData(["/api/user"], null)
+    },
+  })
+
+  return { user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from "react"
+import type { BatchEvent, BatchJobSummary, BatchStatus } from "@shared/schema"
+
+interface BatchProgressCallbacks {
+  onJobFinished?: (job: BatchJobSummary) => void
+  onBatchComplete?: () => void
+}
+
+export function useBatchProgress(batchId: string | null, callbacks: BatchProgressCallbacks = {}) {
+  const [jobs, setJobs] = useState<Record<string, BatchJobSummary>>({})
+  const [isComplete, setIsComplete] = useState(false)
+  const callbacksRef = useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  useEffect(() => {
+    setJobs({})
+    setIsComplete(false)
+    if (!batchId) return
+
+    const source = new EventSource(`/api/batches/${batchId}/events`, { withCredentials: true })
+
+    // Sent on every (re)connect, so a dropped stream resyncs the whole list
+    source.addEventListener("snapshot", (e) => {
+      const snapshot: BatchStatus = JSON.parse((e as MessageEvent).data)
+      setJobs(Object.fromEntries(snapshot.jobs.map((job) => [job.id, job])))
+    })
+
+    const handleJobEvent = (e: Event) => {
+      const event: BatchEvent = JSON.parse((e as MessageEvent).data)
+      if (!("job" in event)) return
+
+      setJobs((prev) => ({ ...prev, [event.job.id]: event.job }))
+      if (event.type !== "progress") {
+        callbacksRef.current.onJobFinished?.(event.job)
+      }
+    }
+    source.addEventListener("progress", handleJobEvent)
+    source.addEventListener("jobComplete", handleJobEvent)
+    source.addEventListener("jobError", handleJobEvent)
+
+    source.addEventListener("batchComplete", () => {
+      source.close()
+      setIsComplete(true)
+      callbacksRef.current.onBatchComplete?.()
+    })
+
+    return () => source.close()
+  }, [batchId])
+
+  return { jobs: Object.values(jobs), isComplete }
+}
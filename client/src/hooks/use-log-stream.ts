@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react"
+import type { LogEntry } from "@shared/schema"
+
+const MAX_ENTRIES = 500
+
+export function useLogStream(query: string, enabled: boolean, initialEntries: LogEntry[]) {
+  const [entries, setEntries] = useState<LogEntry[]>([])
+
+  // Restart from the fetched history whenever the filters change
+  useEffect(() => {
+    setEntries([...initialEntries].reverse().slice(-MAX_ENTRIES))
+  }, [initialEntries])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const source = new EventSource(`/api/logs/stream?${query}`, { withCredentials: true })
+    source.addEventListener("log", (e) => {
+      const entry: LogEntry = JSON.parse((e as MessageEvent).data)
+      setEntries((prev) => {
+        if (prev.some((existing) => existing.id === entry.id)) return prev
+        return [...prev, entry].slice(-MAX_ENTRIES)
+      })
+    })
+
+    return () => source.close()
+  }, [query, enabled])
+
+  return { entries, clear: () => setEntries([]) }
+}
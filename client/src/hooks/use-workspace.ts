@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query"
+import { hasWorkspaceRole, type UserWorkspace, type WorkspaceRole } from "@shared/schema"
+
+// The workspace requests are scoped to and what the user's role in it allows
+export function useWorkspace() {
+  const { data: workspaces = [], isLoading } = useQuery<UserWorkspace[]>({
+    queryKey: ["/api/workspaces"],
+  })
+  const workspace = workspaces.find(w => w.current) ?? null
+
+  const can = (required: WorkspaceRole) => !!workspace && hasWorkspaceRole(workspace.role, required)
+
+  return { workspaces, workspace, isLoading, can }
+}
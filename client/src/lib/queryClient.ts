@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +7,15 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Errors thrown for responses carry the status first, see throwIfResNotOk
+export function isUnauthorizedError(error: Error): boolean {
+  return /^401: /.test(error.message);
+}
+
+export function isForbiddenError(error: Error): boolean {
+  return /^403: /.test(error.message);
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -44,7 +53,16 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// A 401 anywhere means the session is gone, clearing the current user sends the app to the login page
+const handleUnauthorized = (error: Error) => {
+  if (isUnauthorizedError(error)) {
+    queryClient.setQueryData(["/api/user"], null);
+  }
+};
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatFileSize(bytes: number) {
+  const sizes = ["Bytes", "KB", "MB", "GB"]
+  if (bytes === 0) return "0 Bytes"
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), sizes.length - 1)
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + " " + sizes[i]
+}
@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useLogStream } from "@/hooks/use-log-stream";
+import { isForbiddenError } from "@/lib/queryClient";
+import type { LogEntry, LogLevel } from "@shared/schema";
+import { ArrowLeft, ScrollText, Eraser, ShieldAlert } from "lucide-react";
+
+interface LogStatsResponse {
+  stats: {
+    totalUploads: number;
+    successfulUploads: number;
+    failedUploads: number;
+    averageProcessingTime: number;
+    totalFilesProcessed: number;
+    errorRate: number;
+  };
+  summary: {
+    totalEntries: number;
+    byLevel: Record<LogLevel, number>;
+    byCategory: Record<string, number>;
+    activeRequests: number;
+  };
+}
+
+const ALL = "all";
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const levelChartConfig = {
+  debug: { label: "Debug", color: "var(--chart-3)" },
+  info: { label: "Info", color: "var(--chart-2)" },
+  warn: { label: "Warn", color: "var(--chart-4)" },
+  error: { label: "Error", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const categoryChartConfig = {
+  count: { label: "Entries", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const levelBadgeVariant = (level: LogLevel) => {
+  switch (level) {
+    case "error":
+      return "destructive" as const;
+    case "warn":
+      return "default" as const;
+    case "info":
+      return "secondary" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+export default function AdminLogs() {
+  const [level, setLevel] = useState<string>(ALL);
+  const [category, setCategory] = useState<string>(ALL);
+  const [requestId, setRequestId] = useState("");
+  const [live, setLive] = useState(true);
+  const [autoScroll, setAutoScroll] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams();
+    if (level !== ALL) params.set("level", level);
+    if (category !== ALL) params.set("category", category);
+    if (requestId.trim()) params.set("requestId", requestId.trim());
+    return params.toString();
+  }, [level, category, requestId]);
+
+  // Recent history for the current filters, the stream appends to it
+  const { data: history, error: historyError } = useQuery<{ logs: LogEntry[]; nextCursor?: string }>({
+    queryKey: [`/api/logs?${query}${query ? "&" : ""}limit=200`],
+  });
+  // Logs are for server operators, anyone else gets 403 and nothing more is requested
+  const forbidden = historyError ? isForbiddenError(historyError) : false;
+
+  const { data: stats } = useQuery<LogStatsResponse>({
+    queryKey: ['/api/logs/stats'],
+    refetchInterval: 5000,
+    enabled: !forbidden,
+  });
+
+  const initialEntries = useMemo(() => history?.logs ?? [], [history]);
+  const { entries, clear } = useLogStream(query, live && !forbidden, initialEntries);
+
+  useEffect(() => {
+    if (autoScroll && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [entries, autoScroll]);
+
+  const levelData = LEVELS.map(name => ({ level: name, count: stats?.summary.byLevel[name] ?? 0 }));
+  const categoryData = Object.entries(stats?.summary.byCategory ?? {})
+    .map(([name, count]) => ({ category: name, count }))
+    .sort((a, b) => b.count - a.count);
+  const categories = Array.from(new Set([...categoryData.map(c => c.category), ...(category !== ALL ? [category] : [])]));
+
+  const header = (
+    <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+      <div className="container mx-auto px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center">
+              <ScrollText className="text-primary-foreground text-lg" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-foreground">Log Viewer</h1>
+              <p className="text-sm text-muted-foreground">Live server activity</p>
+            </div>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" data-testid="back-home-link">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to analyzer
+            </Button>
+          </Link>
+        </div>
+      </div>
+    </header>
+  );
+
+  if (forbidden) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+
+        <main className="container mx-auto px-4 py-8 max-w-6xl">
+          <Card>
+            <CardContent className="p-8 flex flex-col items-center text-center space-y-2" data-testid="logs-forbidden">
+              <ShieldAlert className="h-8 w-8 text-muted-foreground" />
+              <p className="font-medium text-foreground">Viewing the server's logs requires a server operator account</p>
+              <p className="text-sm text-muted-foreground">An operator can grant it with npm run operator</p>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {header}
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        {/* Counters */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: "Log entries", value: stats?.summary.totalEntries ?? 0 },
+            { label: "Active requests", value: stats?.summary.activeRequests ?? 0 },
+            { label: "Uploads", value: stats?.stats.totalUploads ?? 0 },
+            { label: "Error rate", value: `${(stats?.stats.errorRate ?? 0).toFixed(1)}%` },
+          ].map(counter => (
+            <Card key={counter.label}>
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">{counter.label}</p>
+                <p className="text-2xl font-semibold text-foreground">{counter.value}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Entries by level</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={levelChartConfig} className="h-48 w-full aspect-auto">
+                <BarChart data={levelData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="level" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                  <Bar dataKey="count" radius={4}>
+                    {levelData.map(item => (
+                      <Cell key={item.level} fill={`var(--color-${item.level})`} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Entries by category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={categoryChartConfig} className="h-48 w-full aspect-auto">
+                <BarChart data={categoryData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="category" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={level} onValueChange={setLevel}>
+                <SelectTrigger className="w-36" data-testid="level-filter">
+                  <SelectValue placeholder="Level" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All levels</SelectItem>
+                  {LEVELS.map(name => (
+                    <SelectItem key={name} value={name}>{name} and above</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger className="w-40" data-testid="category-filter">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All categories</SelectItem>
+                  {categories.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Input
+                className="w-72"
+                placeholder="Request ID"
+                value={requestId}
+                onChange={e => setRequestId(e.target.value)}
+                data-testid="request-id-filter"
+              />
+
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <Switch checked={live} onCheckedChange={setLive} data-testid="live-toggle" />
+                <span>Live</span>
+              </div>
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <Switch checked={autoScroll} onCheckedChange={setAutoScroll} data-testid="autoscroll-toggle" />
+                <span>Auto-scroll</span>
+              </div>
+
+              <Button variant="outline" size="sm" className="ml-auto" onClick={clear} data-testid="clear-view-button">
+                <Eraser className="h-4 w-4 mr-1" />
+                Clear view
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Log table */}
+        <Card>
+          <CardContent className="p-0">
+            <div ref={scrollRef} className="max-h-[32rem] overflow-y-auto" data-testid="log-table">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-28">Time</TableHead>
+                    <TableHead className="w-20">Level</TableHead>
+                    <TableHead className="w-28">Category</TableHead>
+                    <TableHead className="w-28">Request</TableHead>
+                    <TableHead>Message</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        No log entries match the current filters
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-mono text-xs whitespace-nowrap">
+                          {new Date(entry.timestamp).toLocaleTimeString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={levelBadgeVariant(entry.level)}>{entry.level}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">{entry.category}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {entry.requestId ? (
+                            <button
+                              className="text-primary hover:underline"
+                              title={entry.requestId}
+                              onClick={() => setRequestId(entry.requestId!)}
+                            >
+                              {entry.requestId.slice(0, 8)}
+                            </button>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <p className="text-foreground">{entry.message}</p>
+                          {entry.metadata && (
+                            <p className="font-mono text-xs text-muted-foreground truncate max-w-xl" title={JSON.stringify(entry.metadata)}>
+                              {JSON.stringify(entry.metadata)}
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,21 +1,190 @@
-import { useState, useRef, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/utils";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ExtractedText } from "@/components/extracted-text";
+import { OcrImageViewer } from "@/components/ocr-image-viewer";
+import { ResultSearch } from "@/components/result-search";
+import { WorkspaceSwitcher } from "@/components/workspace-switcher";
 import { useToast } from "@/hooks/use-toast";
-import { FileProcessingResult } from "@shared/schema";
-import { ChartLine, CloudUpload, FileText, Image, Check, AlertTriangle, Copy, Download, Trash2, RotateCcw, X, Wifi } from "lucide-react";
+import { useBatchProgress } from "@/hooks/use-batch-progress";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { FileProcessingResult, RESULT_FILE_TYPES, RESULT_STATUSES, type ResultMetadata, type ResultPage, type ResultSortField, type SearchHit, type SearchMatch } from "@shared/schema";
+import { ChartLine, CloudUpload, FileText, Image, Check, AlertTriangle, Copy, Download, Trash2, RotateCcw, X, Wifi, ChevronDown, ShieldAlert, Search, ArrowDownWideNarrow, ArrowUpNarrowWide, LogOut, Settings, ScrollText } from "lucide-react";
+
+// Formats offered by the server's export endpoints
+const exportFormats = [
+  { value: "md", label: "Markdown report" },
+  { value: "html", label: "HTML report" },
+  { value: "txt", label: "Plain text" },
+  { value: "json", label: "JSON" },
+] as const;
+
+type ExportFormat = typeof exportFormats[number]["value"];
+
+const ALL = "all";
+const PAGE_SIZE = 20;
+
+// Languages the text analysis reports
+const resultLanguages = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+];
+
+const sortFields: Array<{ value: ResultSortField; label: string }> = [
+  { value: "createdAt", label: "Upload date" },
+  { value: "originalName", label: "Name" },
+  { value: "fileSize", label: "File size" },
+  { value: "wordCount", label: "Word count" },
+  { value: "processingTime", label: "Processing time" },
+  { value: "status", label: "Status" },
+];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const downloadUrl = (href: string, fileName?: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  if (fileName) a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
 
 export default function Home() {
   const [dragOver, setDragOver] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [uploadingFiles, setUploadingFiles] = useState<string[]>([]);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [pageRange, setPageRange] = useState("");
+  const [ocrLanguages, setOcrLanguages] = useState("");
+  const [ocrDocxImages, setOcrDocxImages] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [languageFilter, setLanguageFilter] = useState<string>(ALL);
+  const [piiOnly, setPiiOnly] = useState(false);
+  const [sortField, setSortField] = useState<ResultSortField>("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [searchFocus, setSearchFocus] = useState<{ resultId: string; match: SearchMatch } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const scrolledToFocus = useRef<typeof searchFocus>(null);
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
+  const { can } = useWorkspace();
+  // Analysts change what they uploaded, admins anything in the workspace
+  const canModify = (result: FileProcessingResult) => can("admin") || (can("analyst") && result.ownerId === user?.id);
+
+  // Only query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Filters shared by the list and the spreadsheet exports
+  const filterQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    if (debouncedSearch) params.set("q", debouncedSearch);
+    if (statusFilter !== ALL) params.set("status", statusFilter);
+    if (typeFilter !== ALL) params.set("type", typeFilter);
+    if (languageFilter !== ALL) params.set("language", languageFilter);
+    if (piiOnly) params.set("hasPII", "true");
+    return params.toString();
+  }, [debouncedSearch, statusFilter, typeFilter, languageFilter, piiOnly]);
+  const isFiltered = filterQuery !== "";
+
+  // Results a page at a time, more are fetched as the list is scrolled
+  const {
+    data: resultPages,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/results', filterQuery, sortField, sortOrder],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(filterQuery);
+      params.set("sort", sortField);
+      params.set("order", sortOrder);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(pageParam));
+      const response = await apiRequest('GET', `/api/results?${params}`);
+      return response.json() as Promise<ResultPage>;
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset,
+    // Keep polling while the upload queue still has files in flight
+    refetchInterval: (query) =>
+      query.state.data?.pages.some(page => page.results.some(r => r.status === 'pending' || r.status === 'processing')) ? 2000 : false,
+  });
+  const results = useMemo(() => resultPages?.pages.flatMap(page => page.results) ?? [], [resultPages]);
+  const totalResults = resultPages?.pages[0]?.total ?? 0;
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Bring the searched result into the list, loading pages or dropping filters until its card exists
+  useEffect(() => {
+    if (!searchFocus || scrolledToFocus.current === searchFocus || isLoading || isFetchingNextPage) return;
+    const card = document.querySelector<HTMLElement>(`[data-result-id="${searchFocus.resultId}"]`);
+    if (card) {
+      scrolledToFocus.current = searchFocus;
+      card.scrollIntoView({ behavior: "smooth", block: "start" });
+    } else if (hasNextPage) {
+      fetchNextPage();
+    } else if (isFiltered) {
+      clearFilters();
+    }
+  }, [searchFocus, results, hasNextPage, isLoading, isFetchingNextPage, isFiltered, fetchNextPage]);
 
-  // Fetch all results
-  const { data: results = [], isLoading, refetch } = useQuery<FileProcessingResult[]>({
-    queryKey: ['/api/results'],
+  const showSearchHit = (hit: SearchHit, match: SearchMatch) => {
+    setSearchFocus({ resultId: hit.id, match });
+  };
+
+  const clearFilters = () => {
+    setSearch("");
+    setDebouncedSearch("");
+    setStatusFilter(ALL);
+    setTypeFilter(ALL);
+    setLanguageFilter(ALL);
+    setPiiOnly(false);
+  };
+
+  // Installed OCR languages, null when the server downloads them on demand
+  const { data: languageOptions } = useQuery<{ languages: string[] | null; autoDetection: boolean }>({
+    queryKey: ['/api/ocr/languages'],
+  });
+
+  // Live per-file progress for the current batch
+  const { jobs: batchJobs } = useBatchProgress(activeBatchId, {
+    onJobFinished: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+    },
+    onBatchComplete: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+      setActiveBatchId(null);
+    },
   });
 
   // Upload mutation
@@ -23,6 +192,15 @@ export default function Home() {
     mutationFn: async (files: File[]) => {
       const formData = new FormData();
       files.forEach(file => formData.append('files', file));
+      if (pageRange.trim()) {
+        formData.append('pages', pageRange.trim());
+      }
+      if (ocrLanguages.trim()) {
+        formData.append('languages', ocrLanguages.trim());
+      }
+      if (ocrDocxImages) {
+        formData.append('ocrImages', 'true');
+      }
 
       const response = await apiRequest('POST', '/api/upload', formData);
       return response.json();
@@ -30,10 +208,11 @@ export default function Home() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/results'] });
       toast({
-        title: "Upload completed",
-        description: `Successfully processed ${data.results?.length || 0} file(s)`,
+        title: "Upload received",
+        description: data.message,
       });
-      setUploadProgress({});
+      setUploadingFiles([]);
+      setActiveBatchId(data.batchId);
     },
     onError: (error) => {
       toast({
@@ -41,7 +220,7 @@ export default function Home() {
         description: error.message,
         variant: "destructive",
       });
-      setUploadProgress({});
+      setUploadingFiles([]);
     },
   });
 
@@ -100,7 +279,13 @@ export default function Home() {
         continue;
       }
       
-      const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg'];
+      const allowedTypes = [
+        'application/pdf',
+        'image/png',
+        'image/jpeg',
+        'image/jpg',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      ];
       if (!allowedTypes.includes(file.type)) {
         invalidFiles.push(`${file.name} (unsupported type)`);
         continue;
@@ -118,13 +303,7 @@ export default function Home() {
     }
 
     if (validFiles.length > 0) {
-      // Simulate progress for UI feedback
-      const progressObj: Record<string, number> = {};
-      validFiles.forEach(file => {
-        progressObj[file.name] = 0;
-      });
-      setUploadProgress(progressObj);
-
+      setUploadingFiles(validFiles.map(file => file.name));
       uploadMutation.mutate(validFiles);
     }
   }, [uploadMutation, toast]);
@@ -165,26 +344,30 @@ export default function Home() {
     });
   }, [toast]);
 
-  const downloadResult = useCallback((result: FileProcessingResult) => {
-    if (!result.extractedText) return;
-    
-    const blob = new Blob([result.extractedText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${result.originalName}_extracted.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  // The server renders the file and names it in Content-Disposition
+  const downloadResult = useCallback((result: FileProcessingResult, format: ExportFormat) => {
+    downloadUrl(`/api/results/${result.id}/export?format=${format}`);
   }, []);
 
-  const formatFileSize = (bytes: number) => {
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    if (bytes === 0) return '0 Bytes';
-    const i = Math.floor(Math.log(bytes) / Math.log(1024));
-    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
-  };
+  // Zip of every result in one format
+  const exportAllMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const response = await apiRequest('POST', '/api/results/export', { format });
+      return { format, blob: await response.blob() };
+    },
+    onSuccess: ({ format, blob }) => {
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, `results_${format}.zip`);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const formatProcessingTime = (ms: number | null) => {
     if (!ms) return 'N/A';
@@ -227,9 +410,41 @@ export default function Home() {
                 <p className="text-sm text-muted-foreground">Extract text from PDFs and images</p>
               </div>
             </div>
-            <div className="flex items-center space-x-2">
-              <div className="h-2 w-2 bg-accent rounded-full animate-pulse"></div>
-              <span className="text-sm text-muted-foreground">API Connected</span>
+            <div className="flex flex-1 justify-center px-6">
+              <ResultSearch onSelect={showSearchHit} />
+            </div>
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2">
+                <div className="h-2 w-2 bg-accent rounded-full animate-pulse"></div>
+                <span className="text-sm text-muted-foreground">API Connected</span>
+              </div>
+              <WorkspaceSwitcher />
+              <span className="text-sm font-medium text-foreground" data-testid="current-user">{user?.username}</span>
+              <Link href="/settings">
+                <Button variant="ghost" size="sm" data-testid="settings-link">
+                  <Settings className="h-4 w-4 mr-1" />
+                  Settings
+                </Button>
+              </Link>
+              {/* The server's logs span every workspace, only operators can read them */}
+              {user?.isOperator && (
+                <Link href="/admin/logs">
+                  <Button variant="ghost" size="sm" data-testid="logs-link">
+                    <ScrollText className="h-4 w-4 mr-1" />
+                    Logs
+                  </Button>
+                </Link>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="logout-button"
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Log out
+              </Button>
             </div>
           </div>
         </div>
@@ -238,104 +453,159 @@ export default function Home() {
       <main className="container mx-auto px-4 py-8 max-w-4xl">
         <div className="space-y-8">
           {/* Upload Zone */}
-          <Card>
-            <CardContent className="p-8">
-              <div className="text-center space-y-4">
-                <h2 className="text-2xl font-semibold text-foreground">Upload Your Content</h2>
-                <p className="text-muted-foreground">Drop your PDF or image files here to extract text content</p>
-              </div>
-              
-              <div className="mt-8">
-                <div 
-                  className={`upload-zone border-2 border-dashed border-border rounded-lg p-12 text-center transition-all duration-200 hover:border-primary/50 cursor-pointer ${
-                    dragOver ? 'dragover' : ''
-                  }`}
-                  onDragOver={handleDragOver}
-                  onDragLeave={handleDragLeave}
-                  onDrop={handleDrop}
-                  onClick={() => fileInputRef.current?.click()}
-                  data-testid="upload-zone"
-                >
-                  <div className="space-y-4">
-                    <div className="mx-auto h-16 w-16 bg-muted rounded-full flex items-center justify-center">
-                      <CloudUpload className="text-2xl text-muted-foreground" />
-                    </div>
-                    <div className="space-y-2">
-                      <p className="text-lg font-medium text-foreground">Drop files here or click to browse</p>
-                      <p className="text-sm text-muted-foreground">
-                        Supports PDF files and images (PNG, JPG, JPEG)
-                        <br />Maximum file size: 10MB
-                      </p>
-                    </div>
-                    <div className="flex justify-center space-x-4 text-sm text-muted-foreground">
-                      <div className="flex items-center space-x-1">
-                        <FileText className="text-destructive" />
-                        <span>PDF</span>
+          {can("analyst") && (
+            <Card>
+              <CardContent className="p-8">
+                <div className="text-center space-y-4">
+                  <h2 className="text-2xl font-semibold text-foreground">Upload Your Content</h2>
+                  <p className="text-muted-foreground">Drop your PDF or image files here to extract text content</p>
+                </div>
+                
+                <div className="mt-8">
+                  <div 
+                    className={`upload-zone border-2 border-dashed border-border rounded-lg p-12 text-center transition-all duration-200 hover:border-primary/50 cursor-pointer ${
+                      dragOver ? 'dragover' : ''
+                    }`}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    onDrop={handleDrop}
+                    onClick={() => fileInputRef.current?.click()}
+                    data-testid="upload-zone"
+                  >
+                    <div className="space-y-4">
+                      <div className="mx-auto h-16 w-16 bg-muted rounded-full flex items-center justify-center">
+                        <CloudUpload className="text-2xl text-muted-foreground" />
                       </div>
-                      <div className="flex items-center space-x-1">
-                        <Image className="text-accent" />
-                        <span>Images</span>
+                      <div className="space-y-2">
+                        <p className="text-lg font-medium text-foreground">Drop files here or click to browse</p>
+                        <p className="text-sm text-muted-foreground">
+                          Supports PDF files, Word documents (DOCX) and images (PNG, JPG, JPEG)
+                          <br />Maximum file size: 10MB
+                        </p>
+                      </div>
+                      <div className="flex justify-center space-x-4 text-sm text-muted-foreground">
+                        <div className="flex items-center space-x-1">
+                          <FileText className="text-destructive" />
+                          <span>PDF</span>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <FileText className="text-primary" />
+                          <span>DOCX</span>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <Image className="text-accent" />
+                          <span>Images</span>
+                        </div>
                       </div>
                     </div>
                   </div>
+                  
+                  <div className="mt-4 flex items-center justify-center space-x-2 text-sm text-muted-foreground">
+                    <label htmlFor="page-range">PDF pages</label>
+                    <Input
+                      id="page-range"
+                      className="w-40 h-8"
+                      placeholder="All, or e.g. 1-3,7"
+                      value={pageRange}
+                      onChange={e => setPageRange(e.target.value)}
+                      data-testid="page-range-input"
+                    />
+                    <label htmlFor="ocr-languages" className="pl-2">OCR languages</label>
+                    <Input
+                      id="ocr-languages"
+                      className="w-40 h-8"
+                      placeholder="eng, e.g. eng+spa"
+                      list="ocr-language-options"
+                      value={ocrLanguages}
+                      onChange={e => setOcrLanguages(e.target.value)}
+                      data-testid="ocr-languages-input"
+                    />
+                    <datalist id="ocr-language-options">
+                      {languageOptions?.autoDetection && <option value="auto">Detect automatically</option>}
+                      {languageOptions?.languages?.map(language => (
+                        <option key={language} value={language} />
+                      ))}
+                    </datalist>
+                    <label className="flex items-center gap-2 pl-2">
+                      <Switch checked={ocrDocxImages} onCheckedChange={setOcrDocxImages} data-testid="ocr-docx-images-toggle" />
+                      OCR images in DOCX
+                    </label>
+                  </div>
+
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    className="hidden"
+                    accept=".pdf,.docx,.png,.jpg,.jpeg"
+                    multiple
+                    onChange={handleFileInputChange}
+                    data-testid="file-input"
+                  />
                 </div>
-                
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  className="hidden"
-                  accept=".pdf,.png,.jpg,.jpeg"
-                  multiple
-                  onChange={handleFileInputChange}
-                  data-testid="file-input"
-                />
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Processing Queue */}
-          {(uploadMutation.isPending || Object.keys(uploadProgress).length > 0) && (
+          {(uploadingFiles.length > 0 || batchJobs.length > 0) && (
             <Card>
               <CardContent className="p-6">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-semibold text-foreground">Processing Queue</h3>
                   <span className="text-sm text-muted-foreground">
-                    {Object.keys(uploadProgress).length} file(s)
+                    {uploadingFiles.length || batchJobs.length} file(s)
                   </span>
                 </div>
                 
                 <div className="space-y-4">
-                  {Object.entries(uploadProgress).map(([filename, progress]) => (
-                    <div key={filename} className="flex items-center space-x-4 p-4 bg-muted/30 rounded-lg">
-                      <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
-                        {filename.toLowerCase().includes('.pdf') ? (
-                          <FileText className="text-destructive" />
-                        ) : (
-                          <Image className="text-accent" />
-                        )}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between mb-1">
-                          <p className="font-medium text-foreground truncate">{filename}</p>
+                  {uploadingFiles.length > 0
+                    ? uploadingFiles.map((filename) => (
+                        <div key={filename} className="flex items-center space-x-4 p-4 bg-muted/30 rounded-lg">
+                          <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                            {filename.toLowerCase().includes('.pdf') ? (
+                              <FileText className="text-destructive" />
+                            ) : (
+                              <Image className="text-accent" />
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-foreground truncate">{filename}</p>
+                            <p className="text-sm text-muted-foreground mt-1">Uploading...</p>
+                          </div>
+                          <div className="spinner h-4 w-4 rounded-full" />
                         </div>
-                        <div className="flex items-center space-x-2">
-                          <div className="flex-1 bg-secondary rounded-full h-2">
-                            <div 
-                              className="progress-bar bg-primary h-2 rounded-full" 
-                              style={{ width: `${uploadMutation.isPending ? 50 : 100}%` }}
-                            />
+                      ))
+                    : batchJobs.map((job) => (
+                        <div key={job.id} className="flex items-center space-x-4 p-4 bg-muted/30 rounded-lg" data-testid={`queue-job-${job.resultId}`}>
+                          <div className="h-10 w-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                            {job.fileName.toLowerCase().includes('.pdf') ? (
+                              <FileText className="text-destructive" />
+                            ) : (
+                              <Image className="text-accent" />
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between mb-1">
+                              <p className="font-medium text-foreground truncate">{job.fileName}</p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <div className="flex-1 bg-secondary rounded-full h-2">
+                                <div 
+                                  className={`progress-bar h-2 rounded-full ${job.status === 'failed' ? 'bg-destructive' : 'bg-primary'}`}
+                                  style={{ width: `${job.progress}%` }}
+                                />
+                              </div>
+                              <span className="text-xs text-muted-foreground">{job.progress}%</span>
+                            </div>
+                            <p className={`text-sm mt-1 ${job.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                              {job.status === 'failed'
+                                ? job.error || 'Processing failed'
+                                : job.stage ? job.stage.charAt(0).toUpperCase() + job.stage.slice(1) : 'Queued'}
+                            </p>
                           </div>
-                          <span className="text-xs text-muted-foreground">
-                            {uploadMutation.isPending ? '50%' : '100%'}
-                          </span>
+                          {getStatusIcon(job.status)}
                         </div>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          {uploadMutation.isPending ? 'Processing file...' : 'Complete'}
-                        </p>
-                      </div>
-                      <div className="spinner h-4 w-4 rounded-full" />
-                    </div>
-                  ))}
+                      ))}
                 </div>
               </CardContent>
             </Card>
@@ -344,47 +614,137 @@ export default function Home() {
           {/* Results Section */}
           <div className="space-y-6">
             <div className="flex items-center justify-between">
-              <h3 className="text-xl font-semibold text-foreground">Extraction Results</h3>
+              <div>
+                <h3 className="text-xl font-semibold text-foreground">Extraction Results</h3>
+                {!isLoading && (
+                  <p className="text-sm text-muted-foreground" data-testid="results-count">
+                    {totalResults} {totalResults === 1 ? 'result' : 'results'}{isFiltered && ' matching filters'}
+                  </p>
+                )}
+              </div>
               <div className="flex space-x-2">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      disabled={results.length === 0 || exportAllMutation.isPending}
+                      data-testid="export-all-button"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Export All
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {exportFormats.map(format => (
+                      <DropdownMenuItem
+                        key={format.value}
+                        onSelect={() => exportAllMutation.mutate(format.value)}
+                        data-testid={`export-all-${format.value}`}
+                      >
+                        {format.label} (.zip)
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => downloadUrl(`/api/results/export.csv?${filterQuery}`)} data-testid="export-all-csv">
+                      Spreadsheet (.csv)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => downloadUrl(`/api/results/export.xlsx?${filterQuery}`)} data-testid="export-all-xlsx">
+                      Excel workbook (.xlsx)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {can("admin") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => clearAllMutation.mutate()}
+                    disabled={results.length === 0 || clearAllMutation.isPending}
+                    data-testid="clear-all-button"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="relative flex-1 min-w-48">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-8"
+                  placeholder="Search names and text"
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                  data-testid="results-search-input"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-36" data-testid="status-filter">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {RESULT_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-32" data-testid="type-filter">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {RESULT_FILE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type === 'image' ? 'Images' : type.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={languageFilter} onValueChange={setLanguageFilter}>
+                <SelectTrigger className="w-36" data-testid="language-filter">
+                  <SelectValue placeholder="Language" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All languages</SelectItem>
+                  {resultLanguages.map(language => (
+                    <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Switch checked={piiOnly} onCheckedChange={setPiiOnly} data-testid="pii-filter-toggle" />
+                Contains PII
+              </label>
+              <div className="flex items-center gap-1">
+                <Select value={sortField} onValueChange={value => setSortField(value as ResultSortField)}>
+                  <SelectTrigger className="w-40" data-testid="sort-field">
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortFields.map(field => (
+                      <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
-                  variant="secondary"
-                  size="sm"
-                  onClick={() => {
-                    // Export all results
-                    const allText = results
-                      .filter(r => r.extractedText)
-                      .map(r => `=== ${r.originalName} ===\n\n${r.extractedText}\n\n`)
-                      .join('');
-                    
-                    if (allText) {
-                      const blob = new Blob([allText], { type: 'text/plain' });
-                      const url = URL.createObjectURL(blob);
-                      const a = document.createElement('a');
-                      a.href = url;
-                      a.download = 'all_extracted_text.txt';
-                      document.body.appendChild(a);
-                      a.click();
-                      document.body.removeChild(a);
-                      URL.revokeObjectURL(url);
-                    }
-                  }}
-                  disabled={results.length === 0}
-                  data-testid="export-all-button"
-                >
-                  <Download className="h-4 w-4 mr-1" />
-                  Export All
-                </Button>
-                <Button
-                  variant="outline"
+                  variant="ghost"
                   size="sm"
-                  onClick={() => clearAllMutation.mutate()}
-                  disabled={results.length === 0 || clearAllMutation.isPending}
-                  data-testid="clear-all-button"
+                  onClick={() => setSortOrder(order => order === 'asc' ? 'desc' : 'asc')}
+                  title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}
+                  data-testid="sort-order-toggle"
                 >
-                  <Trash2 className="h-4 w-4 mr-1" />
-                  Clear
+                  {sortOrder === 'asc' ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownWideNarrow className="h-4 w-4" />}
                 </Button>
               </div>
+              {isFiltered && (
+                <Button variant="ghost" size="sm" onClick={clearFilters} data-testid="clear-filters-button">
+                  <X className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              )}
             </div>
 
             {isLoading ? (
@@ -392,6 +752,13 @@ export default function Home() {
                 <div className="spinner h-8 w-8 rounded-full mx-auto mb-4" />
                 <p className="text-muted-foreground">Loading results...</p>
               </div>
+            ) : results.length === 0 && isFiltered ? (
+              <div className="text-center py-16 px-4">
+                <h3 className="text-lg font-semibold text-foreground mb-2">No matching results</h3>
+                <p className="text-muted-foreground max-w-sm mx-auto">
+                  Nothing matches the current search and filters.
+                </p>
+              </div>
             ) : results.length === 0 ? (
               <div className="text-center py-16 px-4">
                 <div className="mx-auto h-20 w-20 bg-muted rounded-full flex items-center justify-center mb-4">
@@ -404,7 +771,11 @@ export default function Home() {
               </div>
             ) : (
               results.map((result) => (
-                <Card key={result.id} className={`fade-in ${result.status === 'failed' ? 'border-destructive/20' : ''}`}>
+                <Card
+                  key={result.id}
+                  className={`fade-in scroll-mt-24 ${result.status === 'failed' ? 'border-destructive/20' : ''}`}
+                  data-result-id={result.id}
+                >
                   <CardContent className="p-6">
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex items-center space-x-3">
@@ -440,25 +811,41 @@ export default function Home() {
                             >
                               <Copy className="h-4 w-4" />
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => downloadResult(result)}
-                              data-testid={`download-button-${result.id}`}
-                            >
-                              <Download className="h-4 w-4" />
-                            </Button>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  data-testid={`download-button-${result.id}`}
+                                >
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {exportFormats.map(format => (
+                                  <DropdownMenuItem
+                                    key={format.value}
+                                    onSelect={() => downloadResult(result, format.value)}
+                                    data-testid={`download-${format.value}-${result.id}`}
+                                  >
+                                    {format.label}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
                           </>
                         )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => deleteMutation.mutate(result.id)}
-                          disabled={deleteMutation.isPending}
-                          data-testid={`delete-button-${result.id}`}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
+                        {canModify(result) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(result.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`delete-button-${result.id}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                     
@@ -467,16 +854,101 @@ export default function Home() {
                         <div className="flex items-center justify-between">
                           <span className="text-sm font-medium text-foreground">Extracted Content</span>
                           <div className="flex items-center space-x-4 text-xs text-muted-foreground">
+                            {(result.metadata as ResultMetadata | null)?.ocrLanguages && (
+                              <span data-testid={`ocr-languages-${result.id}`}>
+                                OCR: {(result.metadata as ResultMetadata).ocrLanguages}
+                              </span>
+                            )}
+                            {(result.metadata as ResultMetadata | null)?.ocrPreprocessing?.used === 'preprocessed' && (
+                              <span
+                                title={(result.metadata as ResultMetadata).ocrPreprocessing!.steps.map(step => step.name).join(', ')}
+                                data-testid={`ocr-preprocessing-${result.id}`}
+                              >
+                                Preprocessed: {(result.metadata as ResultMetadata).ocrPreprocessing!.confidenceBefore}% → {(result.metadata as ResultMetadata).ocrPreprocessing!.confidenceAfter}%
+                              </span>
+                            )}
                             <span>{result.wordCount} words</span>
                             <span>{result.characterCount} characters</span>
                           </div>
                         </div>
                         
-                        <div className="bg-muted/50 rounded-lg p-4 max-h-64 overflow-y-auto">
-                          <pre className="text-sm text-foreground whitespace-pre-wrap font-mono leading-relaxed">
-                            {result.extractedText}
-                          </pre>
-                        </div>
+                        <ExtractedText
+                          result={result}
+                          highlight={searchFocus?.resultId === result.id ? searchFocus.match : undefined}
+                          onClearHighlight={() => setSearchFocus(null)}
+                        />
+
+                        {result.mimeType.startsWith('image/') && !!(result.metadata as ResultMetadata | null)?.ocrWords?.length && (
+                          <Collapsible>
+                            <CollapsibleTrigger asChild>
+                              <button
+                                className="group flex w-full items-center justify-between text-sm font-medium text-foreground"
+                                data-testid={`ocr-viewer-toggle-${result.id}`}
+                              >
+                                <span>Recognized Words</span>
+                                <ChevronDown className="h-4 w-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
+                              </button>
+                            </CollapsibleTrigger>
+                            <CollapsibleContent>
+                              <div className="mt-3" data-testid={`ocr-viewer-panel-${result.id}`}>
+                                <OcrImageViewer result={result} readOnly={!canModify(result)} />
+                              </div>
+                            </CollapsibleContent>
+                          </Collapsible>
+                        )}
+
+                        {result.analysis && (
+                          <Collapsible>
+                            <CollapsibleTrigger asChild>
+                              <button
+                                className="group flex w-full items-center justify-between text-sm font-medium text-foreground"
+                                data-testid={`analysis-toggle-${result.id}`}
+                              >
+                                <span>Content Analysis</span>
+                                <ChevronDown className="h-4 w-4 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
+                              </button>
+                            </CollapsibleTrigger>
+                            <CollapsibleContent>
+                              <div className="mt-3 space-y-3 rounded-lg border border-border p-4" data-testid={`analysis-panel-${result.id}`}>
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                                  <div>
+                                    <p className="text-xs text-muted-foreground">Language</p>
+                                    <p className="font-medium text-foreground uppercase">{result.analysis.language ?? 'N/A'}</p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xs text-muted-foreground">Readability</p>
+                                    <p className="font-medium text-foreground">
+                                      {result.analysis.readabilityScore !== undefined ? result.analysis.readabilityScore.toFixed(1) : 'N/A'}
+                                    </p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xs text-muted-foreground">Sentences</p>
+                                    <p className="font-medium text-foreground">{result.analysis.sentenceCount}</p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xs text-muted-foreground">Paragraphs</p>
+                                    <p className="font-medium text-foreground">{result.analysis.paragraphCount}</p>
+                                  </div>
+                                </div>
+
+                                {result.analysis.containsPII && (
+                                  <div className="flex items-center space-x-2 text-sm text-destructive">
+                                    <ShieldAlert className="h-4 w-4" />
+                                    <span>Possible personal information detected</span>
+                                  </div>
+                                )}
+
+                                {result.analysis.topics && result.analysis.topics.length > 0 && (
+                                  <div className="flex flex-wrap gap-2">
+                                    {result.analysis.topics.map(topic => (
+                                      <Badge key={topic} variant="secondary">{topic}</Badge>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            </CollapsibleContent>
+                          </Collapsible>
+                        )}
                       </div>
                     )}
 
@@ -495,6 +967,14 @@ export default function Home() {
                 </Card>
               ))
             )}
+
+            {hasNextPage && (
+              <div ref={loadMoreRef} className="flex justify-center py-4" data-testid="results-load-more">
+                {isFetchingNextPage
+                  ? <div className="spinner h-6 w-6 rounded-full" />
+                  : <Button variant="ghost" size="sm" onClick={() => fetchNextPage()}>Load more</Button>}
+              </div>
+            )}
           </div>
         </div>
       </main>
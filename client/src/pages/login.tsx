@@ -0,0 +1,100 @@
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { ChartLine } from "lucide-react";
+
+// API errors read "status: body", the body's message is the part worth showing
+const errorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return [parsed.message, parsed.error].filter(Boolean).join(": ");
+  } catch {
+    return body;
+  }
+};
+
+export default function Login() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-3">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center">
+              <ChartLine className="text-primary-foreground text-lg" />
+            </div>
+            <div>
+              <CardTitle className="text-xl">Social Media Content Analyzer</CardTitle>
+              <CardDescription>Sign in to see your extraction results</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={value => setMode(value as "login" | "register")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="login-tab">Log in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="register-tab">Create account</TabsTrigger>
+            </TabsList>
+            {(["login", "register"] as const).map(tab => (
+              <TabsContent key={tab} value={tab}>
+                <form className="space-y-4 pt-2" onSubmit={handleSubmit}>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${tab}-username`}>Username</Label>
+                    <Input
+                      id={`${tab}-username`}
+                      autoComplete="username"
+                      value={username}
+                      onChange={e => setUsername(e.target.value)}
+                      required
+                      data-testid={`${tab}-username-input`}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${tab}-password`}>Password</Label>
+                    <Input
+                      id={`${tab}-password`}
+                      type="password"
+                      autoComplete={tab === "login" ? "current-password" : "new-password"}
+                      minLength={tab === "register" ? 8 : undefined}
+                      value={password}
+                      onChange={e => setPassword(e.target.value)}
+                      required
+                      data-testid={`${tab}-password-input`}
+                    />
+                  </div>
+                  {mutation.error && (
+                    <p className="text-sm text-destructive" data-testid="auth-error">{errorMessage(mutation.error)}</p>
+                  )}
+                  <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid={`${tab}-submit`}>
+                    {tab === "login" ? "Log in" : "Create account"}
+                  </Button>
+                </form>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
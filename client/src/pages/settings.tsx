@@ -0,0 +1,272 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { API_KEY_SCOPES, USAGE_METRICS, type ApiKeyScope, type CreatedApiKey, type PublicApiKey, type UsageMetric, type UsageResponse } from "@shared/schema";
+import { ArrowLeft, Copy, KeyRound, Trash2 } from "lucide-react";
+
+const scopeDescriptions: Record<ApiKeyScope, string> = {
+  upload: "Upload files and follow their batches",
+  read: "Read, search and export results",
+  delete: "Delete results",
+};
+
+const usageLabels: Record<UsageMetric, string> = {
+  files: "Files",
+  bytes: "Upload volume",
+  ocrPages: "OCR pages",
+};
+
+const formatUsage = (metric: UsageMetric, value: number) =>
+  metric === "bytes" ? formatFileSize(value) : value.toLocaleString();
+
+export default function Settings() {
+  const { toast } = useToast();
+  const { workspaces, workspace } = useWorkspace();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["upload", "read"]);
+  // Held only until dismissed, the server cannot show the key again
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  const { data: apiKeys = [], isLoading } = useQuery<PublicApiKey[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const { data: usage } = useQuery<UsageResponse>({
+    queryKey: ["/api/usage"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/api-keys", { name: name.trim(), scopes });
+      return (await response.json()) as CreatedApiKey;
+    },
+    onSuccess: (created) => {
+      setCreatedKey(created);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create API key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: (_, id) => {
+      if (createdKey?.id === id) setCreatedKey(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({ title: "API key revoked" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not revoke API key", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  const copyKey = (key: string) => {
+    navigator.clipboard.writeText(key).then(() => {
+      toast({ title: "Copied to clipboard", description: "Store the key somewhere safe, it will not be shown again" });
+    });
+  };
+
+  const workspaceName = (id: string) => workspaces.find(w => w.id === id)?.name ?? "Workspace you left";
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="h-10 w-10 bg-primary rounded-lg flex items-center justify-center">
+                <KeyRound className="text-primary-foreground text-lg" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-foreground">Settings</h1>
+                <p className="text-sm text-muted-foreground">Usage and API keys for scripts and integrations</p>
+              </div>
+            </div>
+            <Link href="/">
+              <Button variant="ghost" size="sm" data-testid="back-home-link">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to analyzer
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        {usage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Today's usage</CardTitle>
+              <CardDescription>
+                Daily quotas of {workspace?.name ?? "this workspace"}, reset {new Date(usage.resetsAt).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {USAGE_METRICS.map(metric => {
+                const quota = usage.quotas[metric];
+                return (
+                  <div key={metric} className="space-y-1" data-testid={`usage-${metric}`}>
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">{usageLabels[metric]}</span>
+                      <span className="text-muted-foreground">
+                        {formatUsage(metric, quota.used)} of {formatUsage(metric, quota.limit)}
+                      </span>
+                    </div>
+                    <Progress value={quota.limit > 0 ? Math.min(100, quota.used / quota.limit * 100) : 100} />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New API key</CardTitle>
+            <CardDescription>
+              Keys act as you in {workspace ? <span className="font-medium text-foreground">{workspace.name}</span> : "the current workspace"}.
+              Send them as <code className="text-xs">Authorization: Bearer &lt;key&gt;</code>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-4" onSubmit={handleCreate}>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="e.g. Scheduling tool"
+                  maxLength={100}
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  data-testid="api-key-name-input"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {API_KEY_SCOPES.map(scope => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={checked => toggleScope(scope, checked === true)}
+                      data-testid={`api-key-scope-${scope}`}
+                    />
+                    <span className="font-medium">{scope}</span>
+                    <span className="text-muted-foreground">{scopeDescriptions[scope]}</span>
+                  </label>
+                ))}
+              </div>
+              <Button
+                type="submit"
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                data-testid="create-api-key"
+              >
+                Create key
+              </Button>
+            </form>
+
+            {createdKey && (
+              <Alert className="mt-6" data-testid="created-api-key">
+                <KeyRound className="h-4 w-4" />
+                <AlertTitle>Copy your new key now</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p>This is the only time "{createdKey.name}" is shown. If you lose it, revoke it and create another.</p>
+                  <div className="flex items-center gap-2">
+                    <Input readOnly value={createdKey.key} className="font-mono text-xs" onFocus={e => e.currentTarget.select()} />
+                    <Button type="button" variant="outline" size="sm" onClick={() => copyKey(createdKey.key)} data-testid="copy-api-key">
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+                      Done
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your API keys</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : apiKeys.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="no-api-keys">No API keys yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Workspace</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {apiKeys.map(apiKey => (
+                    <TableRow key={apiKey.id} data-testid={`api-key-${apiKey.id}`}>
+                      <TableCell className="font-medium">{apiKey.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{apiKey.prefix}…</TableCell>
+                      <TableCell className="space-x-1">
+                        {apiKey.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary">{scope}</Badge>
+                        ))}
+                      </TableCell>
+                      <TableCell>{workspaceName(apiKey.workspaceId)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(apiKey.id)}
+                          disabled={revokeMutation.isPending}
+                          data-testid={`revoke-api-key-${apiKey.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+ALTER TABLE "file_processing_results" ADD COLUMN "analysis" jsonb;
\ No newline at end of file
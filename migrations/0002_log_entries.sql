@@ -0,0 +1,14 @@
+CREATE TABLE "log_entries" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"timestamp" timestamp (3) NOT NULL,
+	"level" text NOT NULL,
+	"category" text NOT NULL,
+	"message" text NOT NULL,
+	"metadata" jsonb,
+	"duration" real,
+	"request_id" text,
+	"user_id" text
+);
+--> statement-breakpoint
+CREATE INDEX "log_entries_timestamp_idx" ON "log_entries" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "log_entries_request_id_idx" ON "log_entries" USING btree ("request_id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "file_processing_results_search_idx" ON "file_processing_results" USING gin (to_tsvector(CASE "analysis"->>'language' WHEN 'es' THEN 'spanish'::regconfig WHEN 'fr' THEN 'french'::regconfig ELSE 'english'::regconfig END, coalesce("extracted_text", '')));
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "workspace_memberships" (
+	"workspace_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workspace_memberships_workspace_id_user_id_pk" PRIMARY KEY("workspace_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "workspaces" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Results from before workspaces move into a shared default workspace every existing user administers
+INSERT INTO "workspaces" ("id", "name") VALUES ('default', 'Default workspace');--> statement-breakpoint
+INSERT INTO "workspace_memberships" ("workspace_id", "user_id", "role") SELECT 'default', "id", 'admin' FROM "users";--> statement-breakpoint
+ALTER TABLE "file_processing_results" ADD COLUMN "workspace_id" varchar;--> statement-breakpoint
+UPDATE "file_processing_results" SET "workspace_id" = 'default';--> statement-breakpoint
+ALTER TABLE "file_processing_results" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "file_processing_results" ADD COLUMN "owner_id" varchar;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD CONSTRAINT "workspace_memberships_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_memberships" ADD CONSTRAINT "workspace_memberships_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workspace_memberships_user_id_idx" ON "workspace_memberships" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "file_processing_results" ADD CONSTRAINT "file_processing_results_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "file_processing_results" ADD CONSTRAINT "file_processing_results_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "file_processing_results_workspace_id_idx" ON "file_processing_results" USING btree ("workspace_id","created_at");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "usage_counters" (
+	"workspace_id" varchar NOT NULL,
+	"day" date NOT NULL,
+	"files" integer DEFAULT 0 NOT NULL,
+	"bytes" bigint DEFAULT 0 NOT NULL,
+	"ocr_pages" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "usage_counters_workspace_id_day_pk" PRIMARY KEY("workspace_id","day")
+);
+--> statement-breakpoint
+ALTER TABLE "usage_counters" ADD CONSTRAINT "usage_counters_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "audit_log" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp (3) NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"actor_id" varchar NOT NULL,
+	"actor_name" text NOT NULL,
+	"api_key_id" varchar,
+	"action" text NOT NULL,
+	"result_id" varchar,
+	"ip" text,
+	"user_agent" text,
+	"details" jsonb,
+	"prev_hash" text NOT NULL,
+	"hash" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_workspace_id_timestamp_idx" ON "audit_log" USING btree ("workspace_id","timestamp");--> statement-breakpoint
+CREATE INDEX "audit_log_result_id_idx" ON "audit_log" USING btree ("result_id");--> statement-breakpoint
+-- The trail is append only in the database too, not just in the API
+CREATE FUNCTION "audit_log_append_only"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_log is append only, % is not allowed', TG_OP;
+END;
+$$;--> statement-breakpoint
+CREATE TRIGGER "audit_log_no_update_delete" BEFORE UPDATE OR DELETE ON "audit_log" FOR EACH ROW EXECUTE FUNCTION "audit_log_append_only"();--> statement-breakpoint
+CREATE TRIGGER "audit_log_no_truncate" BEFORE TRUNCATE ON "audit_log" FOR EACH STATEMENT EXECUTE FUNCTION "audit_log_append_only"();
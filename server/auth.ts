@@ -0,0 +1,180 @@
+import passport from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
+import session from 'express-session';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { Express, Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+import { logger } from './utils/logger';
+import { personalWorkspaceName } from './middleware/workspace';
+import { insertUserSchema, type PublicUser, type User as StoredUser } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Stored as hex key and salt, "key.salt"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${key.toString('hex')}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split('.');
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const key = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// The password hash never leaves the server
+export function toPublicUser(user: StoredUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  logger.warn('SESSION_SECRET is not set, sessions will not survive a restart', 'system');
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Sessions, the local username and password strategy, and the register, login, logout and
+ * current user endpoints. Registered before any other route so they all see req.user.
+ */
+export function setupAuth(app: Express) {
+  if (app.get('env') === 'production') {
+    app.set('trust proxy', 1);
+  }
+
+  app.use(session({
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get('env') === 'production',
+      maxAge: SESSION_MAX_AGE
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted account ends its sessions
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/register', async (req, res, next) => {
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid registration', error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ') });
+    }
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ message: 'Username is already taken' });
+      }
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password)
+      });
+      await storage.createWorkspace(personalWorkspaceName(user.username), user.id);
+      logger.info('User registered', 'system', { userId: user.id, username: user.username }, req.requestId);
+
+      startSession(req, user, error => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Registration failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.post('/api/login', (req, res, next) => {
+    passport.authenticate('local', (error: unknown, user: StoredUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        logger.warn('Login failed', 'system', { username: req.body?.username }, req.requestId);
+        return res.status(401).json({ message: 'Invalid username or password' });
+      }
+      startSession(req, user, loginError => {
+        if (loginError) return next(loginError);
+        logger.info('User logged in', 'system', { userId: user.id }, req.requestId);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/logout', (req, res, next) => {
+    const userId = req.user?.id;
+    req.logout(error => {
+      if (error) return next(error);
+      req.session.destroy(destroyError => {
+        if (destroyError) return next(destroyError);
+        if (userId) logger.info('User logged out', 'system', { userId }, req.requestId);
+        res.clearCookie('connect.sid');
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get('/api/user', (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
+
+// A fresh session id on login, so one planted before it cannot be reused
+function startSession(req: Request, user: StoredUser, done: (error?: unknown) => void) {
+  req.session.regenerate(error => {
+    if (error) return done(error);
+    req.login(user, done);
+  });
+}
+
+/**
+ * Rejects requests without a logged in user.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+}
@@ -1,32 +1,111 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
-import { parsePDF } from '../utils/pdfParser';
-import { performOCR } from '../utils/ocrParser';
+import { fileStore } from '../fileStore';
 import { InsertFileProcessingResult } from '@shared/schema';
 import { validateFile } from '../utils/fileValidator';
-import { parseDocx } from '../utils/docxParser';
-import { parseTxt } from '../utils/txtParser';
-import { cleanExtractedText, analyzeText } from '../utils/textProcessor';
+import { parsePageRange } from '../utils/pdfParser';
+import { parseLanguages } from '../utils/ocrLanguages';
+import { uploadQueue } from '../utils/uploadQueue';
+import { ocrWorkerPool, OCRPoolSaturatedError } from '../utils/ocrWorkerPool';
+import { logger } from '../utils/logger';
+import { QuotaExceededError, assertWithinQuota, recordUsage } from '../utils/usageQuotas';
+import { sendQuotaExceeded } from '../middleware/rateLimit';
+import { audit } from '../utils/auditLog';
 
 export const uploadController = {
   async handleUpload(req: Request, res: Response) {
+    const { requestId } = req;
+    const owner = { workspaceId: req.workspace.id, ownerId: req.user!.id };
+
     try {
       const files = req.files as any[];
       
       if (!files || files.length === 0) {
+        logger.warn('Upload rejected: no files', 'upload', undefined, requestId);
         return res.status(400).json({ 
           message: 'No files uploaded',
           error: 'At least one file is required'
         });
       }
 
+      // Optional PDF page selection, e.g. pages=1-3,7
+      const pageSpec = (req.body?.pages ?? req.query.pages) as string | undefined;
+      let pages: number[] | undefined;
+      if (pageSpec) {
+        try {
+          pages = parsePageRange(String(pageSpec));
+        } catch (error) {
+          logger.warn('Upload rejected: invalid page range', 'upload', { pages: pageSpec }, requestId);
+          return res.status(400).json({
+            message: 'Invalid page range',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      // Optional OCR languages, e.g. languages=eng+spa or languages=auto
+      const languageSpec = (req.body?.languages ?? req.query.languages) as string | undefined;
+      let languages: string | undefined;
+      if (languageSpec) {
+        try {
+          languages = parseLanguages(String(languageSpec));
+        } catch (error) {
+          logger.warn('Upload rejected: invalid OCR languages', 'upload', { languages: languageSpec }, requestId);
+          return res.status(400).json({
+            message: 'Invalid OCR languages',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      // Optional OCR of images embedded in DOCX files, ocrImages=true
+      const ocrImages = ['true', '1'].includes(String(req.body?.ocrImages ?? req.query.ocrImages ?? '').toLowerCase());
+
+      // Backpressure: refuse images while the OCR queue is full instead of queueing them to time out
+      if (files.some(file => file.mimetype.startsWith('image/')) && ocrWorkerPool.isSaturated()) {
+        const error = new OCRPoolSaturatedError(ocrWorkerPool.getMetrics().maxQueue);
+        logger.warn('Upload rejected: OCR at capacity', 'upload', ocrWorkerPool.getMetrics(), requestId);
+        res.set('Retry-After', String(error.retryAfter));
+        return res.status(503).json({
+          message: 'OCR is busy',
+          error: error.message
+        });
+      }
+
+      // Daily quotas: files that may need OCR are refused once the OCR pages are used up. How many
+      // pages they need is only known during extraction, which charges each page before its OCR
+      const mayNeedOcr = files.some(file =>
+        file.mimetype.startsWith('image/') ||
+        file.mimetype === 'application/pdf' ||
+        (ocrImages && file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'));
+      const usage = { files: files.length, bytes: files.reduce((total, file) => total + file.size, 0) };
+      try {
+        await assertWithinQuota(req.workspace.id, { ...usage, ...(mayNeedOcr && { ocrPages: 1 }) });
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return sendQuotaExceeded(req, res, error);
+        }
+        throw error;
+      }
+      await recordUsage(req.workspace.id, usage);
+
       const results = [];
+      const queuedFiles = [];
+
+      logger.startRequest(requestId, {
+        fileCount: files.length,
+        ip: req.ip,
+        userId: req.user!.id,
+        ...(req.apiKey && { apiKeyId: req.apiKey.id })
+      });
 
       for (const file of files) {
         const startTime = Date.now();
+        logger.logFileUpload(requestId, file.originalname, file.size, file.mimetype);
         
         // Enhanced file validation
         const validationResult = validateFile(file);
+        logger.logFileValidation(requestId, file.originalname, validationResult.isValid, validationResult.error);
         if (!validationResult.isValid) {
           const errorResult: InsertFileProcessingResult = {
             filename: `${Date.now()}-${file.originalname}`,
@@ -39,6 +118,7 @@ export const uploadController = {
             characterCount: null,
             processingTime: Date.now() - startTime,
             errorMessage: validationResult.error || 'File validation failed',
+            ...owner,
             metadata: {
               uploadedAt: new Date().toISOString(),
               failedAt: new Date().toISOString(),
@@ -48,111 +128,76 @@ export const uploadController = {
           };
           
           const savedErrorResult = await storage.createFileProcessingResult(errorResult);
+          logger.debug(`Result saved: ${file.originalname}`, 'upload', { resultId: savedErrorResult.id, status: 'failed' }, requestId);
           results.push(savedErrorResult);
           continue;
         }
         
-        // Create initial processing result
+        // Page selection only applies to PDFs
+        const filePages = file.mimetype === 'application/pdf' ? pages : undefined;
+        const isDocx = file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+        const fileOcrImages = isDocx && ocrImages;
+        // Languages only matter where OCR can run
+        const fileLanguages = file.mimetype === 'application/pdf' || file.mimetype.startsWith('image/') || fileOcrImages ? languages : undefined;
+        const metadata = {
+          uploadedAt: new Date().toISOString(),
+          ...(filePages && { pageSelection: pageSpec }),
+          ...(fileLanguages && { languageSelection: fileLanguages })
+        };
+
+        // Create a pending result, the queue moves it through processing to completed/failed
         const initialResult: InsertFileProcessingResult = {
           filename: `${Date.now()}-${file.originalname}`,
           originalName: file.originalname,
           fileSize: file.size,
           mimeType: file.mimetype,
-          status: 'processing',
+          status: 'pending',
           extractedText: null,
           wordCount: null,
           characterCount: null,
           processingTime: null,
           errorMessage: null,
-          metadata: {
-            uploadedAt: new Date().toISOString()
-          }
+          ...owner,
+          metadata
         };
 
-        const processingResult = await storage.createFileProcessingResult(initialResult);
-
-        try {
-          let extractedText = '';
-
-          // Process based on file type
-          let rawText = '';
-          let sourceType: 'pdf' | 'ocr' | 'docx' | 'txt';
-          
-          if (file.mimetype === 'application/pdf') {
-            rawText = await parsePDF(file.buffer);
-            sourceType = 'pdf';
-          } else if (file.mimetype.startsWith('image/')) {
-            rawText = await performOCR(file.buffer);
-            sourceType = 'ocr';
-          } else if (file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-            rawText = await parseDocx(file.buffer);
-            sourceType = 'docx';
-          } else if (file.mimetype === 'text/plain') {
-            rawText = await parseTxt(file.buffer);
-            sourceType = 'txt';
-          } else {
-            throw new Error('Unsupported file type');
-          }
-          
-          // Clean and preprocess the extracted text
-          extractedText = cleanExtractedText(rawText, sourceType);
-          
-          // Analyze the text for additional insights
-          const textAnalysis = analyzeText(extractedText, {
-            detectLanguage: true,
-            detectPII: true,
-            extractTopics: true
-          });
-
-          // Calculate metrics
-          const wordCount = extractedText.trim().split(/\s+/).filter(word => word.length > 0).length;
-          const characterCount = extractedText.length;
-          const processingTime = Date.now() - startTime;
-
-          // Update with success
-          const updatedResult = await storage.updateFileProcessingResult(processingResult.id, {
-            status: 'completed',
-            extractedText,
-            wordCount,
-            characterCount,
-            processingTime,
-            metadata: Object.assign(
-              initialResult.metadata || {},
-              { completedAt: new Date().toISOString() }
-            )
-          });
-
-          results.push(updatedResult);
-
-        } catch (error) {
-          const processingTime = Date.now() - startTime;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
+        const pendingResult = await storage.createFileProcessingResult(initialResult);
+        // Images are kept so recognized words can be shown on top of them
+        if (file.mimetype.startsWith('image/')) {
+          await fileStore.saveFile(pendingResult.id, file.buffer);
+        }
+        logger.debug(`Result saved: ${file.originalname}`, 'upload', { resultId: pendingResult.id, status: 'pending' }, requestId);
+        results.push(pendingResult);
+        queuedFiles.push({
+          resultId: pendingResult.id,
+          originalName: file.originalname,
+          mimetype: file.mimetype,
+          buffer: file.buffer,
+          pages: filePages,
+          languages: fileLanguages,
+          ocrImages: fileOcrImages,
+          metadata
+        });
+      }
 
-          // Update with error
-          const updatedResult = await storage.updateFileProcessingResult(processingResult.id, {
-            status: 'failed',
-            processingTime,
-            errorMessage,
-            metadata: Object.assign(
-              initialResult.metadata || {},
-              {
-                failedAt: new Date().toISOString(),
-                error: errorMessage
-              }
-            )
-          });
+      for (const result of results) {
+        await audit(req, 'result.upload', { resultId: result.id, details: { name: result.originalName, size: result.fileSize } });
+      }
 
-          results.push(updatedResult);
-        }
+      // The queue ends the request once the batch finishes
+      const batchId = queuedFiles.length > 0 ? uploadQueue.enqueue(queuedFiles, requestId, req.workspace.id) : null;
+      if (!batchId) {
+        logger.endRequest(requestId, { queued: 0 });
       }
 
-      res.json({
-        message: `Processed ${files.length} file(s)`,
+      res.status(202).json({
+        message: `Queued ${queuedFiles.length} of ${files.length} file(s) for processing`,
+        batchId,
         results: results
       });
 
     } catch (error) {
-      console.error('Upload error:', error);
+      logger.failRequest(requestId, error instanceof Error ? error.message : 'Unknown error');
       
       res.status(500).json({
         message: 'Failed to process uploaded files',
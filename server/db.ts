@@ -0,0 +1,33 @@
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+neonConfig.webSocketConstructor = ws;
+
+// Either driver's pool, connect-pg-simple only needs query()
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema> & { $client: pg.Pool | NeonPool };
+
+// Neon's serverless driver goes through Neon's WebSocket proxy, which a plain Postgres does not have
+export function isNeonUrl(connectionString: string): boolean {
+  return new URL(connectionString).hostname.endsWith('.neon.tech');
+}
+
+/**
+ * Drizzle over Neon's serverless driver for Neon hosts and node-postgres for any other Postgres,
+ * such as a local one for development and tests.
+ */
+export function createDatabase(connectionString: string): Database {
+  if (isNeonUrl(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzleNodePostgres({ client: new pg.Pool({ connectionString }), schema });
+}
+
+// Only connect when a database is provisioned, callers fall back to in-memory state otherwise
+export const db: Database | undefined = process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : undefined;
@@ -0,0 +1,70 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Original uploads kept next to their results, keyed by result id
+export interface IFileStore {
+  saveFile(id: string, buffer: Buffer): Promise<void>;
+  getFile(id: string): Promise<Buffer | undefined>;
+  deleteFile(id: string): Promise<void>;
+  deleteAllFiles(): Promise<void>;
+}
+
+export class MemFileStore implements IFileStore {
+  private files: Map<string, Buffer>;
+
+  constructor() {
+    this.files = new Map();
+  }
+
+  async saveFile(id: string, buffer: Buffer): Promise<void> {
+    this.files.set(id, buffer);
+  }
+
+  async getFile(id: string): Promise<Buffer | undefined> {
+    return this.files.get(id);
+  }
+
+  async deleteFile(id: string): Promise<void> {
+    this.files.delete(id);
+  }
+
+  async deleteAllFiles(): Promise<void> {
+    this.files.clear();
+  }
+}
+
+export class DiskFileStore implements IFileStore {
+  constructor(private directory: string) {}
+
+  async saveFile(id: string, buffer: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(id), buffer);
+  }
+
+  async getFile(id: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.filePath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async deleteFile(id: string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  async deleteAllFiles(): Promise<void> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(names.map(name => fs.rm(path.join(this.directory, name), { force: true })));
+  }
+
+  // Ids are UUIDs, basename keeps anything else inside the directory
+  private filePath(id: string): string {
+    return path.join(this.directory, path.basename(id));
+  }
+}
+
+export const fileStore: IFileStore = process.env.STORAGE_DIR
+  ? new DiskFileStore(path.resolve(process.env.STORAGE_DIR))
+  : new MemFileStore();
@@ -1,10 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { requestId } from "./middleware/requestId";
+import { ocrWorkerPool } from "./utils/ocrWorkerPool";
+import { logger } from "./utils/logger";
+import { endEventStreams } from "./utils/eventStreams";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use(requestId);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -67,5 +72,41 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Warm the OCR workers up so the first image does not pay for startup, failures are retried per job
+    ocrWorkerPool.start().catch(() => undefined);
   });
+
+  // End event streams, let in-flight requests and OCR finish and flush logs before exiting
+  const shutdownTimeout = parseInt(process.env.OCR_SHUTDOWN_TIMEOUT_MS || '30000', 10);
+  const closeServer = () => new Promise<void>(resolve => {
+    const timer = setTimeout(() => {
+      server.closeAllConnections();
+      resolve();
+    }, shutdownTimeout);
+    server.close(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log(`${signal} received, shutting down`);
+
+    let exitCode = 0;
+    try {
+      endEventStreams();
+      await Promise.all([closeServer(), ocrWorkerPool.shutdown()]);
+      await logger.close();
+    } catch (error) {
+      exitCode = 1;
+      console.error(`Shutdown failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      process.exit(exitCode);
+    }
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
 })();
@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type { ApiKey, ApiKeyScope, PublicApiKey } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey; // Set when the request was authenticated with an API key instead of a session
+    }
+  }
+}
+
+const KEY_PREFIX = 'sma_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+// Keys are long random tokens, so a fast hash is enough to keep them unusable if the table leaks
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// The hash stays on the server
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash: _keyHash, ...publicKey } = apiKey;
+  return publicKey;
+}
+
+// Everything an API key can reach, any other route is session only
+const API_KEY_ROUTES: Array<{ method: string; path: RegExp; scopes: ApiKeyScope[] }> = [
+  { method: 'POST', path: /^\/upload$/, scopes: ['upload'] },
+  { method: 'GET', path: /^\/batches\/[^/]+(\/events)?$/, scopes: ['upload', 'read'] },
+  { method: 'GET', path: /^\/results(\/.*)?$/, scopes: ['read'] },
+  { method: 'POST', path: /^\/results\/export$/, scopes: ['read'] },
+  { method: 'GET', path: /^\/search$/, scopes: ['read'] },
+  { method: 'DELETE', path: /^\/results(\/[^/]+)?$/, scopes: ['delete'] },
+  { method: 'GET', path: /^\/usage$/, scopes: ['upload', 'read', 'delete'] }
+];
+
+/**
+ * Authenticates `Authorization: Bearer <key>` requests as the key's user. Requests without the
+ * header fall through to the session. Mounted on /api after setupAuth.
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+  if (scheme?.toLowerCase() !== 'bearer') return next();
+
+  try {
+    const apiKey = token ? await storage.getApiKeyByHash(hashApiKey(token)) : undefined;
+    const user = apiKey && await storage.getUser(apiKey.userId);
+    if (!apiKey || !user) {
+      logger.warn('API key rejected', 'system', { path: req.path }, req.requestId);
+      return res.status(401).json({ message: 'Invalid API key' });
+    }
+
+    const route = API_KEY_ROUTES.find(r => r.method === req.method && r.path.test(req.path));
+    if (!route) {
+      return res.status(403).json({ message: 'Forbidden', error: 'This endpoint cannot be used with an API key' });
+    }
+    if (!route.scopes.some(scope => apiKey.scopes.includes(scope))) {
+      return res.status(403).json({ message: 'Forbidden', error: `API key needs the ${route.scopes.join(' or ')} scope` });
+    }
+
+    req.user = user;
+    req.apiKey = apiKey;
+    logger.debug('API key authenticated', 'system', { userId: user.id, apiKeyId: apiKey.id }, req.requestId);
+    await storage.touchApiKey(apiKey.id);
+    next();
+  } catch (error) {
+    res.status(500).json({
+      message: 'Failed to authenticate API key',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
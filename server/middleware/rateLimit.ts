@@ -0,0 +1,76 @@
+import type { Request, Response, NextFunction } from 'express';
+import { TokenBucketLimiter, type RateLimitResult } from '../utils/rateLimiter';
+import { QuotaExceededError, assertWithinQuota } from '../utils/usageQuotas';
+import { logger } from '../utils/logger';
+
+const limit = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback), 10);
+
+// Requests per minute to any authenticated endpoint
+export const apiRateLimiter = new TokenBucketLimiter('api', { capacity: limit('RATE_LIMIT_API_PER_MINUTE', 300), windowSeconds: 60 });
+// Upload requests per minute, each can carry up to 10 files
+export const uploadRateLimiter = new TokenBucketLimiter('upload', { capacity: limit('RATE_LIMIT_UPLOADS_PER_MINUTE', 10), windowSeconds: 60 });
+// Login and registration attempts per minute from one IP
+export const authRateLimiter = new TokenBucketLimiter('auth', { capacity: limit('RATE_LIMIT_AUTH_PER_MINUTE', 10), windowSeconds: 60 });
+
+// API keys are limited separately from their user's browser session
+export function rateLimitKey(req: Request): string {
+  if (req.apiKey) return `key:${req.apiKey.id}`;
+  if (req.user) return `user:${req.user.id}`;
+  return `ip:${req.ip}`;
+}
+
+function setRateLimitHeaders(res: Response, limiter: TokenBucketLimiter, result: RateLimitResult) {
+  res.set({
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${limiter.options.capacity};w=${limiter.options.windowSeconds}`
+  });
+}
+
+/**
+ * Takes a token from the caller's bucket, or answers 429 when it is empty. Mounted after
+ * authentication so the caller can be told apart by user or API key instead of IP.
+ */
+export function rateLimit(limiter: TokenBucketLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = rateLimitKey(req);
+    const result = limiter.take(key);
+    setRateLimitHeaders(res, limiter, result);
+    if (!result.allowed) {
+      logger.warn('Rate limit exceeded', 'system', { limiter: limiter.name, key, userId: req.user?.id }, req.requestId);
+      res.set('Retry-After', String(result.retryAfter));
+      return res.status(429).json({
+        message: 'Too many requests',
+        error: `Rate limit of ${limiter.options.capacity} ${limiter.name} requests per ${limiter.options.windowSeconds} seconds exceeded, retry in ${result.retryAfter} seconds`,
+        retryAfter: result.retryAfter
+      });
+    }
+    next();
+  };
+}
+
+export function sendQuotaExceeded(req: Request, res: Response, error: QuotaExceededError) {
+  logger.warn('Upload quota exceeded', 'upload', { workspaceId: req.workspace.id, metric: error.metric, userId: req.user?.id }, req.requestId);
+  res.set('Retry-After', String(error.retryAfter));
+  return res.status(429).json({ message: 'Daily quota exceeded', error: error.message, retryAfter: error.retryAfter });
+}
+
+/**
+ * Refuses uploads once the workspace's daily file or byte quota is used up, before multer reads
+ * the files into memory. The exact amounts are checked once the files are parsed.
+ */
+export async function checkUploadQuota(req: Request, res: Response, next: NextFunction) {
+  try {
+    await assertWithinQuota(req.workspace.id, { files: 1, bytes: 1 });
+    next();
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendQuotaExceeded(req, res, error);
+    }
+    res.status(500).json({
+      message: 'Failed to check upload quota',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
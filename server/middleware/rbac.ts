@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from 'express';
+import { hasWorkspaceRole, type FileProcessingResult, type WorkspaceRole } from '@shared/schema';
+
+export function sendForbidden(res: Response, required: WorkspaceRole) {
+  return res.status(403).json({ message: 'Forbidden', error: `Requires the ${required} role in this workspace` });
+}
+
+/**
+ * Rejects requests whose role in the current workspace is below the required one.
+ * Runs after requireAuth and resolveWorkspace.
+ */
+export function requireRole(required: WorkspaceRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasWorkspaceRole(req.workspace.role, required)) {
+      return sendForbidden(res, required);
+    }
+    next();
+  };
+}
+
+/**
+ * Rejects requests from users that are not server operators. For what spans every workspace,
+ * like the server's logs, where a workspace role says nothing.
+ */
+export function requireOperator(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.isOperator) {
+    return res.status(403).json({ message: 'Forbidden', error: 'Requires a server operator account' });
+  }
+  next();
+}
+
+// Analysts change only what they uploaded, admins anything in the workspace
+export function canModifyResult(req: Request, result: FileProcessingResult): boolean {
+  return hasWorkspaceRole(req.workspace.role, 'admin') ||
+    (hasWorkspaceRole(req.workspace.role, 'analyst') && result.ownerId === req.user!.id);
+}
@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string;
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming ids end up in log output, so only accept short, printable tokens
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  req.requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+}
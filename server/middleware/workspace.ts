@@ -0,0 +1,60 @@
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import type { WorkspaceRole } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace: { id: string; name: string; role: WorkspaceRole };
+    }
+  }
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    workspaceId?: string;
+  }
+}
+
+// Every account gets one on registration, this covers accounts from before workspaces
+export function personalWorkspaceName(username: string): string {
+  return `${username}'s workspace`;
+}
+
+/**
+ * Scopes the request to the workspace selected in the session, falling back to the user's first
+ * workspace when none is selected or the user has since lost access to it. API keys are fixed to
+ * the workspace they were created in. Runs after requireAuth.
+ */
+export async function resolveWorkspace(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = req.user!;
+    if (req.apiKey) {
+      const workspaceId = req.apiKey.workspaceId;
+      const [membership, workspace] = await Promise.all([storage.getMembership(workspaceId, user.id), storage.getWorkspace(workspaceId)]);
+      if (!membership || !workspace) {
+        return res.status(403).json({ message: 'Forbidden', error: 'The API key\'s user is no longer a member of its workspace' });
+      }
+      req.workspace = { id: workspace.id, name: workspace.name, role: membership.role };
+      return next();
+    }
+
+    let workspaces = await storage.getWorkspacesForUser(user.id);
+    if (workspaces.length === 0) {
+      await storage.createWorkspace(personalWorkspaceName(user.username), user.id);
+      workspaces = await storage.getWorkspacesForUser(user.id);
+    }
+
+    const workspace = workspaces.find(w => w.id === req.session.workspaceId) ?? workspaces[0];
+    if (req.session.workspaceId !== workspace.id) {
+      req.session.workspaceId = workspace.id;
+    }
+    req.workspace = { id: workspace.id, name: workspace.name, role: workspace.role };
+    next();
+  } catch (error) {
+    res.status(500).json({
+      message: 'Failed to resolve workspace',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { storage } from './storage';
+
+// Grants or revokes the server operator flag: npm run operator -- <username> [--revoke]
+async function main() {
+  const [username, flag] = process.argv.slice(2);
+  if (!username || (flag && flag !== '--revoke')) {
+    console.error('Usage: npm run operator -- <username> [--revoke]');
+    process.exit(1);
+  }
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not set, in-memory accounts only exist inside the running server');
+    process.exit(1);
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    console.error(`No user named '${username}'`);
+    process.exit(1);
+  }
+  const isOperator = flag !== '--revoke';
+  await storage.setOperator(user.id, isOperator);
+  console.log(`${username} is ${isOperator ? 'now' : 'no longer'} a server operator`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
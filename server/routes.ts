@@ -1,19 +1,56 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { requireAuth, setupAuth } from "./auth";
+import { resolveWorkspace } from "./middleware/workspace";
+import { authenticateApiKey, generateApiKey, toPublicApiKey } from "./middleware/apiKey";
+import { apiRateLimiter, authRateLimiter, checkUploadQuota, rateLimit, rateLimitKey, uploadRateLimiter } from "./middleware/rateLimit";
+import { getQuotaStatus, nextReset, usageDay } from "./utils/usageQuotas";
+import { canModifyResult, requireOperator, requireRole, sendForbidden } from "./middleware/rbac";
+import { fileStore } from "./fileStore";
 import cors from "cors";
 import multer from "multer";
 import { uploadController } from "./controllers/uploadController";
 import { validateFile, getFileTypeInfo } from "./utils/fileValidator";
 import { logger } from "./utils/logger";
+import { uploadQueue } from "./utils/uploadQueue";
+import { ocrWorkerPool } from "./utils/ocrWorkerPool";
+import { DEFAULT_OCR_LANGUAGES, canDetectScript, getInstalledLanguages } from "./utils/ocrLanguages";
+import { ocrWordsToText } from "./utils/ocrParser";
+import { analyzeText, countWords, normalizeExtractedText } from "./utils/textProcessor";
+import { EXPORT_FORMATS, exportResult, exportResultsZip, isExportFormat } from "./utils/resultExporter";
+import { writeAuditCsv, writeResultsCsv, writeResultsXlsx } from "./utils/spreadsheetExporter";
+import { parsePage, parseResultFilters, parseResultQuery } from "./utils/resultFilters";
+import { audit, parseAuditFilters } from "./utils/auditLog";
+import { verifyAuditChain } from "./utils/auditChain";
+import { buildSnippets, findMatches, parseSearchQuery, type SearchClause } from "./utils/textSearch";
+import type { AuditFilters, CreatedApiKey, ResultFilters, ResultQuery, SearchResponse, UsageResponse, UserWorkspace } from "@shared/schema";
+import { WORKSPACE_ROLES, createApiKeySchema, hasWorkspaceRole, type WorkspaceRole } from "@shared/schema";
+import { TEXT_ANALYSIS_VERSION, type ResultMetadata } from "@shared/schema";
+import { REQUEST_ID_HEADER } from "./middleware/requestId";
+import { matchesLogQuery, parseLogQuery, type LogQuery } from "./utils/logSinks";
+import { openEventStream } from "./utils/eventStreams";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Enable CORS for React frontend
   app.use(cors({
     origin: true,
-    credentials: true
+    credentials: true,
+    exposedHeaders: [REQUEST_ID_HEADER]
   }));
 
+  // Everything after the auth endpoints needs a logged in user or an API key, and is scoped to one of
+  // their workspaces. Any member can read, analysts upload and change their own results, admins everything else in
+  // the workspace. The server's logs are for operators only
+  app.use(['/api/login', '/api/register'], rateLimit(authRateLimiter));
+  setupAuth(app);
+  app.use('/api', authenticateApiKey);
+  app.use('/api', requireAuth);
+  app.use('/api', rateLimit(apiRateLimiter));
+  app.use('/api', resolveWorkspace);
+  const analyst = requireRole('analyst');
+  const admin = requireRole('admin');
+
   // Configure multer for file uploads
   const upload = multer({
     storage: multer.memoryStorage(),
@@ -38,14 +75,317 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The user's workspaces, marking the one requests are scoped to
+  app.get('/api/workspaces', async (req, res) => {
+    try {
+      const workspaces: UserWorkspace[] = (await storage.getWorkspacesForUser(req.user!.id))
+        .map(workspace => ({ ...workspace, current: workspace.id === req.workspace.id }));
+      res.json(workspaces);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch workspaces',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Create a workspace and switch to it
+  app.post('/api/workspaces', async (req, res) => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return res.status(400).json({ message: 'Invalid workspace', error: 'Name must be 1 to 100 characters' });
+    }
+
+    try {
+      const workspace = await storage.createWorkspace(name, req.user!.id);
+      req.session.workspaceId = workspace.id;
+      logger.info('Workspace created', 'system', { workspaceId: workspace.id, userId: req.user!.id }, req.requestId);
+      const created: UserWorkspace = { ...workspace, role: 'admin', current: true };
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to create workspace',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Switch the session to another of the user's workspaces
+  app.post('/api/workspaces/:id/select', async (req, res) => {
+    try {
+      if (!(await storage.getMembership(req.params.id, req.user!.id))) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+      req.session.workspaceId = req.params.id;
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to switch workspace',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Members of a workspace, visible to its members
+  app.get('/api/workspaces/:id/members', async (req, res) => {
+    try {
+      if (!(await storage.getMembership(req.params.id, req.user!.id))) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+      res.json(await storage.getWorkspaceMembers(req.params.id));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch members',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Add a user by username or change their role, admins only
+  app.post('/api/workspaces/:id/members', async (req, res) => {
+    const { username, role } = req.body ?? {};
+    if (typeof username !== 'string' || !WORKSPACE_ROLES.includes(role)) {
+      return res.status(400).json({ message: 'Invalid member', error: `username is required and role must be one of ${WORKSPACE_ROLES.join(', ')}` });
+    }
+
+    try {
+      const membership = await storage.getMembership(req.params.id, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+      if (!hasWorkspaceRole(membership.role, 'admin')) {
+        return sendForbidden(res, 'admin');
+      }
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const member = await storage.setWorkspaceMember(req.params.id, user.id, role as WorkspaceRole);
+      logger.info('Workspace member set', 'system', { workspaceId: req.params.id, userId: user.id, role }, req.requestId);
+      res.json({ userId: user.id, username: user.username, role: member.role, createdAt: member.createdAt });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to add member',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Remove a member, admins only. Anyone may leave a workspace themselves
+  app.delete('/api/workspaces/:id/members/:userId', async (req, res) => {
+    try {
+      const membership = await storage.getMembership(req.params.id, req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+      if (!hasWorkspaceRole(membership.role, 'admin') && req.params.userId !== req.user!.id) {
+        return sendForbidden(res, 'admin');
+      }
+
+      const removed = await storage.removeWorkspaceMember(req.params.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      logger.info('Workspace member removed', 'system', { workspaceId: req.params.id, userId: req.params.userId }, req.requestId);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to remove member',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // The user's API keys, without the keys themselves
+  app.get('/api/api-keys', async (req, res) => {
+    try {
+      const keys = await storage.getApiKeysForUser(req.user!.id);
+      res.json(keys.map(toPublicApiKey));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch API keys',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Create an API key for the current workspace. The response is the only time the key is shown
+  app.post('/api/api-keys', async (req, res) => {
+    const parsed = createApiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid API key', error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ') });
+    }
+
+    try {
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        userId: req.user!.id,
+        workspaceId: req.workspace.id,
+        name: parsed.data.name,
+        scopes: Array.from(new Set(parsed.data.scopes)),
+        prefix,
+        keyHash
+      });
+      logger.info('API key created', 'system', { userId: req.user!.id, apiKeyId: apiKey.id, scopes: apiKey.scopes }, req.requestId);
+      const created: CreatedApiKey = { ...toPublicApiKey(apiKey), key };
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to create API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Revoke one of the user's API keys
+  app.delete('/api/api-keys/:id', async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiKey(req.user!.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'API key not found' });
+      }
+      logger.info('API key revoked', 'system', { userId: req.user!.id, apiKeyId: req.params.id }, req.requestId);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to revoke API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Today's quota usage of the workspace and the caller's rate limits
+  app.get('/api/usage', async (req, res) => {
+    try {
+      const key = rateLimitKey(req);
+      const response: UsageResponse = {
+        day: usageDay(),
+        resetsAt: nextReset().toISOString(),
+        quotas: await getQuotaStatus(req.workspace.id),
+        rateLimits: Object.fromEntries([apiRateLimiter, uploadRateLimiter].map(limiter => {
+          const { limit, remaining, resetSeconds } = limiter.peek(key);
+          return [limiter.name, { limit, remaining, resetSeconds }];
+        }))
+      };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch usage',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // File upload endpoint
-  app.post('/api/upload', upload.array('files', 10), uploadController.handleUpload);
+  app.post('/api/upload', analyst, rateLimit(uploadRateLimiter), checkUploadQuota, upload.array('files', 10), uploadController.handleUpload);
 
-  // Get all processing results
+  // Get status and per-file progress of an upload batch
+  app.get('/api/batches/:id', async (req, res) => {
+    try {
+      const batch = uploadQueue.getBatchStatus(req.params.id, req.workspace.id);
+      if (!batch) {
+        return res.status(404).json({ message: 'Batch not found' });
+      }
+      res.json(batch);
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch batch',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Stream batch progress as Server-Sent Events
+  app.get('/api/batches/:id/events', (req, res) => {
+    const batch = uploadQueue.getBatchStatus(req.params.id, req.workspace.id);
+    if (!batch) {
+      return res.status(404).json({ message: 'Batch not found' });
+    }
+
+    openEventStream(res);
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Late subscribers get the current state first
+    send('snapshot', batch);
+    if (batch.status === 'completed') {
+      send('batchComplete', { type: 'batchComplete', statistics: batch.statistics });
+      return res.end();
+    }
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    const unsubscribe = uploadQueue.subscribe(req.params.id, (event) => {
+      send(event.type, event);
+      if (event.type === 'batchComplete') {
+        res.end();
+      }
+    });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Full-text search of extracted text: words, "quoted phrases" and prefix* words, all of which must match
+  app.get('/api/search', async (req, res) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    let clauses: SearchClause[];
+    let page: { limit: number; offset: number };
+    try {
+      clauses = parseSearchQuery(q);
+      page = parsePage(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid search', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    if (clauses.length === 0) {
+      return res.status(400).json({ message: 'Invalid search', error: 'Search for at least one word' });
+    }
+
+    try {
+      const { results, total } = await storage.searchFileProcessingResults(req.workspace.id, clauses, page);
+      const response: SearchResponse = {
+        query: q,
+        hits: results.map(({ result, score }) => {
+          const text = result.extractedText ?? '';
+          const matches = findMatches(text, clauses, result.analysis?.language);
+          return {
+            id: result.id,
+            originalName: result.originalName,
+            mimeType: result.mimeType,
+            createdAt: result.createdAt,
+            score,
+            matches,
+            snippets: buildSnippets(text, matches)
+          };
+        }),
+        total,
+        ...page,
+        ...(page.offset + results.length < total && { nextOffset: page.offset + results.length })
+      };
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Search failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Processing results a page at a time, filtered and sorted by the query string
   app.get('/api/results', async (req, res) => {
     try {
-      const results = await storage.getAllFileProcessingResults();
-      res.json(results);
+      let query: ResultQuery;
+      try {
+        query = parseResultQuery(req.query);
+      } catch (error) {
+        return res.status(400).json({ message: 'Invalid query', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      const page = await storage.queryFileProcessingResults(req.workspace.id, query);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ 
         message: 'Failed to fetch results',
@@ -54,13 +394,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Spreadsheet of results with the list's filters, one row per result, written as it is read
+  app.get(['/api/results/export.csv', '/api/results/export.xlsx'], async (req, res) => {
+    let filters: ResultFilters;
+    try {
+      filters = parseResultFilters(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid filters', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    const xlsx = req.path.endsWith('.xlsx');
+    const date = new Date().toISOString().slice(0, 10);
+    res.attachment(`results-${date}.${xlsx ? 'xlsx' : 'csv'}`);
+    res.type(xlsx ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' : 'text/csv; charset=utf-8');
+
+    try {
+      await audit(req, 'results.export', { details: { format: xlsx ? 'xlsx' : 'csv', filters } });
+      const batches = storage.streamFileProcessingResults(req.workspace.id, filters);
+      await (xlsx ? writeResultsXlsx(batches, res) : writeResultsCsv(batches, res));
+      logger.info('Results spreadsheet exported', 'system', { format: xlsx ? 'xlsx' : 'csv', filters }, req.requestId);
+    } catch (error) {
+      logger.error('Results spreadsheet export failed', 'system', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, req.requestId);
+      // Once rows are sent the status is gone, a cut off download is all that can signal the failure
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ 
+          message: 'Failed to export results',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
   // Get specific processing result
   app.get('/api/results/:id', async (req, res) => {
     try {
-      const result = await storage.getFileProcessingResult(req.params.id);
+      const result = await storage.getFileProcessingResult(req.workspace.id, req.params.id);
       if (!result) {
         return res.status(404).json({ message: 'Result not found' });
       }
+      await audit(req, 'result.view', { resultId: result.id });
       res.json(result);
     } catch (error) {
       res.status(500).json({ 
@@ -70,13 +446,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Original uploaded image of a result
+  app.get('/api/results/:id/file', async (req, res) => {
+    try {
+      const result = await storage.getFileProcessingResult(req.workspace.id, req.params.id);
+      const file = result && await fileStore.getFile(result.id);
+      if (!result || !file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      await audit(req, 'result.view', { resultId: result.id, details: { file: true } });
+      res.type(result.mimeType).send(file);
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to fetch file',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Download a result as a Markdown or HTML report, plain text or JSON
+  app.get('/api/results/:id/export', async (req, res) => {
+    try {
+      const format = req.query.format ?? 'txt';
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ message: 'Invalid export format', error: `Use one of ${EXPORT_FORMATS.join(', ')}` });
+      }
+      const result = await storage.getFileProcessingResult(req.workspace.id, req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: 'Result not found' });
+      }
+
+      const exported = exportResult(result, format);
+      await audit(req, 'result.export', { resultId: result.id, details: { format } });
+      res.attachment(exported.fileName).type(exported.contentType).send(exported.content);
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to export result',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Zip of several results in one format, all results when no ids are given
+  app.post('/api/results/export', async (req, res) => {
+    try {
+      const { ids, format = 'md' } = req.body ?? {};
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ message: 'Invalid export format', error: `Use one of ${EXPORT_FORMATS.join(', ')}` });
+      }
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+        return res.status(400).json({ message: 'Invalid result ids', error: 'ids must be an array of result ids' });
+      }
+
+      const results = ids
+        ? (await Promise.all(ids.map((id: string) => storage.getFileProcessingResult(req.workspace.id, id)))).filter(result => !!result)
+        : await storage.getAllFileProcessingResults(req.workspace.id);
+      if (results.length === 0) {
+        return res.status(404).json({ message: 'No results to export' });
+      }
+
+      for (const result of results) {
+        await audit(req, 'result.export', { resultId: result.id, details: { format, zip: true } });
+      }
+      logger.info('Results exported', 'system', { format, count: results.length }, req.requestId);
+      res.attachment(`results_${format}.zip`).type('application/zip');
+      exportResultsZip(results, format)
+        .on('error', (error) => {
+          logger.error('Export archive failed', 'system', { error: error.message }, req.requestId);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to export results',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Correct a recognized word, the extracted text is rebuilt from the words
+  app.patch('/api/results/:id/ocr-words/:index', analyst, async (req, res) => {
+    try {
+      const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+      if (!text || /\s/.test(text)) {
+        return res.status(400).json({ message: 'Invalid word', error: 'Text must be a single non-empty word' });
+      }
+      if (!/^\d+$/.test(req.params.index)) {
+        return res.status(400).json({ message: 'Invalid word', error: `Invalid word index '${req.params.index}'` });
+      }
+
+      const result = await storage.getFileProcessingResult(req.workspace.id, req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: 'Result not found' });
+      }
+      if (!canModifyResult(req, result)) {
+        return sendForbidden(res, 'admin');
+      }
+      const metadata = (result.metadata ?? {}) as ResultMetadata;
+      const index = Number(req.params.index);
+      if (!metadata.ocrWords?.[index]) {
+        return res.status(404).json({ message: 'Word not found' });
+      }
+
+      const ocrWords = metadata.ocrWords.map((word, i) => i === index ? { ...word, text, edited: true } : word);
+      // Cleaned like freshly recognized text, so the result reads and counts the same as after an upload
+      const extractedText = normalizeExtractedText(ocrWordsToText(ocrWords, metadata.ocrLanguages || DEFAULT_OCR_LANGUAGES));
+      const textAnalysis = analyzeText(extractedText, {
+        detectLanguage: true,
+        detectPII: true,
+        extractTopics: true
+      });
+      const updated = await storage.updateFileProcessingResult(req.workspace.id, result.id, {
+        extractedText,
+        wordCount: countWords(extractedText),
+        characterCount: extractedText.length,
+        analysis: { version: TEXT_ANALYSIS_VERSION, ...textAnalysis },
+        metadata: { ...metadata, ocrWords }
+      });
+      await audit(req, 'result.edit', { resultId: result.id, details: { index, from: metadata.ocrWords[index].text, to: text } });
+      logger.info('OCR word corrected', 'processing', { resultId: result.id, index }, req.requestId);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ 
+        message: 'Failed to update word',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Delete specific result
-  app.delete('/api/results/:id', async (req, res) => {
+  app.delete('/api/results/:id', analyst, async (req, res) => {
     try {
-      const deleted = await storage.deleteFileProcessingResult(req.params.id);
+      const result = await storage.getFileProcessingResult(req.workspace.id, req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: 'Result not found' });
+      }
+      if (!canModifyResult(req, result)) {
+        return sendForbidden(res, 'admin');
+      }
+      // Recorded first, a delete the audit trail could not record does not happen
+      await audit(req, 'result.delete', { resultId: result.id, details: { name: result.originalName } });
+      const deleted = await storage.deleteFileProcessingResult(req.workspace.id, req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: 'Result not found' });
       }
+      await fileStore.deleteFile(req.params.id);
       res.json({ message: 'Result deleted successfully' });
     } catch (error) {
       res.status(500).json({ 
@@ -86,10 +600,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Clear all results
-  app.delete('/api/results', async (req, res) => {
+  // Clear all results of the workspace
+  app.delete('/api/results', admin, async (req, res) => {
     try {
-      await storage.deleteAllFileProcessingResults();
+      const results = await storage.getAllFileProcessingResults(req.workspace.id);
+      // One entry for the whole clear, recorded first, so the trail never lists deletes that did not happen
+      await audit(req, 'results.delete', {
+        details: { count: results.length, results: results.map(result => ({ id: result.id, name: result.originalName })) }
+      });
+      await storage.deleteAllFileProcessingResults(req.workspace.id);
+      await Promise.all(results.map(result => fileStore.deleteFile(result.id)));
       res.json({ message: 'All results cleared successfully' });
     } catch (error) {
       res.status(500).json({ 
@@ -99,17 +619,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Logging and monitoring endpoints
-  app.get('/api/logs', async (req, res) => {
+  // Audit trail of the workspace, newest first. Entries are only ever appended, no route changes or removes them
+  app.get('/api/audit', admin, async (req, res) => {
+    let filters: AuditFilters;
+    let page: { limit: number; offset: number };
+    try {
+      filters = parseAuditFilters(req.query);
+      page = parsePage(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid audit query', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
     try {
-      const { level, category, limit = 100, since } = req.query;
-      const logs = logger.getLogs({
-        level: level as any,
-        category: category as string,
-        limit: parseInt(limit as string),
-        since: since ? new Date(since as string) : undefined
+      res.json(await storage.queryAuditEntries(req.workspace.id, filters, page));
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to fetch audit trail',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  app.get('/api/audit/export.csv', admin, async (req, res) => {
+    let filters: AuditFilters;
+    try {
+      filters = parseAuditFilters(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid audit query', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    res.attachment(`audit-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type('text/csv; charset=utf-8');
+    try {
+      await writeAuditCsv(storage.streamAuditEntries(req.workspace.id, filters), res);
+    } catch (error) {
+      logger.error('Audit trail export failed', 'system', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, req.requestId);
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({
+          message: 'Failed to export audit trail',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  // Recomputes the hash chain over every workspace's entries, any changed or removed entry breaks it. The chain
+  // spans all workspaces, so only server operators verify it
+  app.get('/api/audit/verify', requireOperator, async (req, res) => {
+    try {
+      const verification = await verifyAuditChain(storage.streamAuditChain());
+      if (!verification.valid) {
+        logger.error('Audit trail hash chain broken', 'system', { brokenAt: verification.brokenAt }, req.requestId);
+      }
+      res.json(verification);
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to verify audit trail',
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
-      res.json(logs);
+    }
+  });
+
+  // Logging and monitoring endpoints. Logs span every workspace and name users, files and errors, so only
+  // server operators see them
+  app.get('/api/logs', requireOperator, async (req, res) => {
+    let query: LogQuery;
+    try {
+      query = parseLogQuery(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid log query', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    try {
+      const page = await logger.queryLogs(query);
+      res.json({ logs: page.entries, nextCursor: page.nextCursor });
     } catch (error) {
       res.status(500).json({ 
         message: 'Failed to fetch logs',
@@ -118,10 +705,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/logs/stats', async (req, res) => {
+  // Live tail of new log entries as Server-Sent Events
+  app.get('/api/logs/stream', requireOperator, (req, res) => {
+    let filter: LogQuery;
     try {
-      const { since } = req.query;
-      const stats = logger.getUploadStats(since ? new Date(since as string) : undefined);
+      const { level, category, requestId } = parseLogQuery(req.query);
+      filter = { level, category, requestId };
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid log query', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    openEventStream(res);
+    res.write(': connected\n\n');
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    const unsubscribe = logger.subscribe((entry) => {
+      if (matchesLogQuery(entry, filter)) {
+        res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+      }
+    });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.get('/api/logs/stats', requireOperator, async (req, res) => {
+    let since: Date | undefined;
+    try {
+      ({ since } = parseLogQuery(req.query));
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid log query', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    try {
+      const stats = logger.getUploadStats(since);
       const summary = logger.getLogSummary();
       res.json({ stats, summary });
     } catch (error) {
@@ -132,9 +751,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/logs', async (req, res) => {
+  app.delete('/api/logs', requireOperator, async (req, res) => {
     try {
-      logger.clearLogs();
+      await logger.clearLogs();
       res.json({ message: 'Logs cleared successfully' });
     } catch (error) {
       res.status(500).json({ 
@@ -144,6 +763,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // OCR worker pool utilisation
+  app.get('/api/ocr/metrics', (req, res) => {
+    res.json(ocrWorkerPool.getMetrics());
+  });
+
+  // OCR languages available for the languages upload parameter
+  app.get('/api/ocr/languages', (req, res) => {
+    try {
+      // Without a local traineddata directory any language is downloaded on demand
+      res.json({ languages: getInstalledLanguages() ?? null, autoDetection: canDetectScript() });
+    } catch (error) {
+      res.status(500).json({
+        message: 'Failed to list OCR languages',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
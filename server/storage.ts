@@ -1,27 +1,171 @@
-import { type User, type InsertUser, type FileProcessingResult, type InsertFileProcessingResult } from "@shared/schema";
+import { type User, type InsertUser, type FileProcessingResult, type InsertFileProcessingResult, type ResultFilters, type ResultFileType, type ResultPage, type ResultQuery, type ResultSortField, type UserWorkspace, type Workspace, type ApiKey, type InsertApiKey, type UsageCounts, type AuditEntry, type AuditFilters, type AuditPage, type NewAuditEntry, type WorkspaceMember, type WorkspaceMembership, type WorkspaceRole, users, apiKeys, usageCounters, auditLog, fileProcessingResults, resultSearchDocument, workspaceMemberships, workspaces } from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { and, asc, count, desc, eq, gt, gte, ilike, like, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { db, type Database } from "./db";
+import { DEFAULT_RESULT_PAGE_SIZE } from "./utils/resultFilters";
+import { InvertedIndex, toTsQuery, type SearchClause } from "./utils/textSearch";
+import { AUDIT_GENESIS_HASH, hashAuditEntry } from "./utils/auditChain";
 
 export interface IStorage {
+  // Where express-session keeps sessions, alongside the rest of the data
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
-  // File processing results methods
+  setOperator(userId: string, isOperator: boolean): Promise<User | undefined>;
+
+  // Workspaces, the creator becomes an admin
+  createWorkspace(name: string, creatorId: string): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspacesForUser(userId: string): Promise<UserWorkspace[]>;
+  getMembership(workspaceId: string, userId: string): Promise<WorkspaceMembership | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]>;
+  // Adds the user, or changes the role of an existing member
+  setWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMembership>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean>;
+
+  // API keys, looked up by the hash of the presented key
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getApiKeysForUser(userId: string): Promise<ApiKey[]>;
+  touchApiKey(id: string): Promise<void>;
+  deleteApiKey(userId: string, id: string): Promise<boolean>;
+
+  // Daily usage of a workspace, day is a UTC YYYY-MM-DD date
+  getUsage(workspaceId: string, day: string): Promise<UsageCounts>;
+  // Adds to the day's counters and returns the new totals
+  addUsage(workspaceId: string, day: string, counts: Partial<UsageCounts>): Promise<UsageCounts>;
+
+  // Audit trail. Append only, there is deliberately no way to change or remove entries
+  appendAuditEntry(entry: NewAuditEntry): Promise<AuditEntry>;
+  queryAuditEntries(workspaceId: string, filters: AuditFilters, page: { limit: number; offset: number }): Promise<AuditPage>;
+  // Newest first in batches, for exports
+  streamAuditEntries(workspaceId: string, filters?: AuditFilters, batchSize?: number): AsyncIterable<AuditEntry[]>;
+  // Every workspace's entries oldest first, the order the hash chain was built in
+  streamAuditChain(batchSize?: number): AsyncIterable<AuditEntry[]>;
+
+  // File processing results methods, each only sees the results of one workspace
   createFileProcessingResult(result: InsertFileProcessingResult): Promise<FileProcessingResult>;
-  getFileProcessingResult(id: string): Promise<FileProcessingResult | undefined>;
-  getAllFileProcessingResults(): Promise<FileProcessingResult[]>;
-  updateFileProcessingResult(id: string, updates: Partial<InsertFileProcessingResult>): Promise<FileProcessingResult | undefined>;
-  deleteFileProcessingResult(id: string): Promise<boolean>;
-  deleteAllFileProcessingResults(): Promise<void>;
+  getFileProcessingResult(workspaceId: string, id: string): Promise<FileProcessingResult | undefined>;
+  getAllFileProcessingResults(workspaceId: string, filters?: ResultFilters): Promise<FileProcessingResult[]>;
+  // One page of filtered, sorted results and the total number of matches
+  queryFileProcessingResults(workspaceId: string, query: ResultQuery): Promise<ResultPage>;
+  // Full-text search of the extracted text, best ranked first
+  searchFileProcessingResults(workspaceId: string, clauses: SearchClause[], page: { limit: number; offset: number }): Promise<RankedResults>;
+  // Newest first in batches, so exports never hold the whole history in memory
+  streamFileProcessingResults(workspaceId: string, filters?: ResultFilters, batchSize?: number): AsyncIterable<FileProcessingResult[]>;
+  updateFileProcessingResult(workspaceId: string, id: string, updates: Partial<InsertFileProcessingResult>): Promise<FileProcessingResult | undefined>;
+  deleteFileProcessingResult(workspaceId: string, id: string): Promise<boolean>;
+  deleteAllFileProcessingResults(workspaceId: string): Promise<void>;
+}
+
+export interface RankedResults {
+  results: Array<{ result: FileProcessingResult; score: number }>;
+  total: number;
+}
+
+// Mime types of the file type filter, images match by prefix
+const FILE_TYPE_MIME_TYPES: Record<Exclude<ResultFileType, 'image'>, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain'
+};
+
+const STREAM_BATCH_SIZE = 500;
+
+const EMPTY_USAGE: UsageCounts = { files: 0, bytes: 0, ocrPages: 0 };
+
+// Advisory lock held while an audit entry is appended, any constant other code does not use
+const AUDIT_LOCK_KEY = 727_001;
+
+function matchesAuditFilters(entry: AuditEntry, workspaceId: string, filters: AuditFilters): boolean {
+  return entry.workspaceId === workspaceId &&
+    (!filters.action || entry.action === filters.action) &&
+    (!filters.actorId || entry.actorId === filters.actorId) &&
+    (!filters.resultId || entry.resultId === filters.resultId) &&
+    (!filters.since || entry.timestamp >= filters.since) &&
+    (!filters.until || entry.timestamp <= filters.until);
+}
+
+function matchesFilters(result: FileProcessingResult, filters: ResultFilters): boolean {
+  if (filters.status && result.status !== filters.status) return false;
+  if (filters.type && (filters.type === 'image'
+    ? !result.mimeType.startsWith('image/')
+    : result.mimeType !== FILE_TYPE_MIME_TYPES[filters.type])) return false;
+  if (filters.mimeType && (filters.mimeType.endsWith('/*')
+    ? !result.mimeType.startsWith(filters.mimeType.slice(0, -1))
+    : result.mimeType !== filters.mimeType)) return false;
+  if (filters.from && result.createdAt < filters.from) return false;
+  if (filters.to && result.createdAt > filters.to) return false;
+  if (filters.language && result.analysis?.language !== filters.language) return false;
+  if (filters.hasPII !== undefined && (result.analysis?.containsPII ?? false) !== filters.hasPII) return false;
+  if (filters.q) {
+    const q = filters.q.toLowerCase();
+    if (!result.originalName.toLowerCase().includes(q) && !result.extractedText?.toLowerCase().includes(q)) return false;
+  }
+  return true;
+}
+
+// Dates compare by time, two equal ones are still different objects
+function sortValue(value: FileProcessingResult[ResultSortField]): string | number | null {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+// Missing values sort last in either direction, the id keeps pages stable on ties
+function compareResults(a: FileProcessingResult, b: FileProcessingResult, sort: ResultSortField, order: 'asc' | 'desc'): number {
+  const left = sortValue(a[sort]);
+  const right = sortValue(b[sort]);
+  if (left === null && right !== null) return 1;
+  if (right === null && left !== null) return -1;
+  const direction = order === 'asc' ? 1 : -1;
+  if (left !== null && right !== null && left !== right) {
+    return (left < right ? -1 : 1) * direction;
+  }
+  return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) * direction;
 }
 
+function pageOf(results: FileProcessingResult[], total: number, limit: number, offset: number): ResultPage {
+  return {
+    results,
+    total,
+    limit,
+    offset,
+    ...(offset + results.length < total && { nextOffset: offset + results.length })
+  };
+}
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Expired sessions are pruned once a day
+const SESSION_PRUNE_INTERVAL = 24 * 60 * 60 * 1000;
+
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<string, User>;
+  private workspaces: Map<string, Workspace>;
+  private memberships: WorkspaceMembership[];
+  private apiKeys: Map<string, ApiKey>;
+  private usage: Map<string, UsageCounts>; // By workspace id and day
+  private auditEntries: AuditEntry[]; // In id order
   private fileProcessingResults: Map<string, FileProcessingResult>;
+  private searchIndex: InvertedIndex;
 
   constructor() {
     this.users = new Map();
+    this.workspaces = new Map();
+    this.memberships = [];
+    this.apiKeys = new Map();
+    this.usage = new Map();
+    this.auditEntries = [];
     this.fileProcessingResults = new Map();
+    this.searchIndex = new InvertedIndex();
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -36,11 +180,156 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, isOperator: false };
     this.users.set(id, user);
     return user;
   }
 
+  async setOperator(userId: string, isOperator: boolean): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updated = { ...user, isOperator };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async createWorkspace(name: string, creatorId: string): Promise<Workspace> {
+    const workspace: Workspace = { id: randomUUID(), name, createdAt: new Date() };
+    this.workspaces.set(workspace.id, workspace);
+    await this.setWorkspaceMember(workspace.id, creatorId, 'admin');
+    return workspace;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<UserWorkspace[]> {
+    return this.memberships
+      .filter(membership => membership.userId === userId)
+      .map(membership => ({ ...this.workspaces.get(membership.workspaceId)!, role: membership.role }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getMembership(workspaceId: string, userId: string): Promise<WorkspaceMembership | undefined> {
+    return this.memberships.find(membership => membership.workspaceId === workspaceId && membership.userId === userId);
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.memberships
+      .filter(membership => membership.workspaceId === workspaceId)
+      .map(membership => ({
+        userId: membership.userId,
+        username: this.users.get(membership.userId)?.username ?? '',
+        role: membership.role,
+        createdAt: membership.createdAt
+      }))
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async setWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMembership> {
+    const existing = await this.getMembership(workspaceId, userId);
+    if (existing) {
+      existing.role = role;
+      return existing;
+    }
+    const membership: WorkspaceMembership = { workspaceId, userId, role, createdAt: new Date() };
+    this.memberships.push(membership);
+    return membership;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const index = this.memberships.findIndex(membership => membership.workspaceId === workspaceId && membership.userId === userId);
+    if (index === -1) return false;
+    this.memberships.splice(index, 1);
+    return true;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const key: ApiKey = {
+      id: randomUUID(),
+      userId: insertKey.userId,
+      workspaceId: insertKey.workspaceId,
+      name: insertKey.name,
+      prefix: insertKey.prefix,
+      keyHash: insertKey.keyHash,
+      scopes: insertKey.scopes,
+      createdAt: new Date(),
+      lastUsedAt: null
+    };
+    this.apiKeys.set(key.id, key);
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(key => key.keyHash === keyHash);
+  }
+
+  async getApiKeysForUser(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    const key = this.apiKeys.get(id);
+    if (key) key.lastUsedAt = new Date();
+  }
+
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    if (this.apiKeys.get(id)?.userId !== userId) return false;
+    return this.apiKeys.delete(id);
+  }
+
+  async getUsage(workspaceId: string, day: string): Promise<UsageCounts> {
+    return { ...(this.usage.get(`${workspaceId}:${day}`) ?? EMPTY_USAGE) };
+  }
+
+  async addUsage(workspaceId: string, day: string, counts: Partial<UsageCounts>): Promise<UsageCounts> {
+    // No await between reading and writing, so concurrent uploads cannot lose each other's counts
+    const current = this.usage.get(`${workspaceId}:${day}`) ?? EMPTY_USAGE;
+    const updated: UsageCounts = {
+      files: current.files + (counts.files ?? 0),
+      bytes: current.bytes + (counts.bytes ?? 0),
+      ocrPages: current.ocrPages + (counts.ocrPages ?? 0)
+    };
+    this.usage.set(`${workspaceId}:${day}`, updated);
+    return { ...updated };
+  }
+
+  async appendAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    // No await between reading the last hash and appending, so entries cannot interleave
+    const last = this.auditEntries[this.auditEntries.length - 1];
+    const prevHash = last?.hash ?? AUDIT_GENESIS_HASH;
+    const appended: AuditEntry = { ...entry, id: (last?.id ?? 0) + 1, prevHash, hash: hashAuditEntry(prevHash, entry) };
+    this.auditEntries.push(appended);
+    return { ...appended };
+  }
+
+  async queryAuditEntries(workspaceId: string, filters: AuditFilters, page: { limit: number; offset: number }): Promise<AuditPage> {
+    const matches = this.auditEntries.filter(entry => matchesAuditFilters(entry, workspaceId, filters)).reverse();
+    const entries = matches.slice(page.offset, page.offset + page.limit);
+    return {
+      entries,
+      total: matches.length,
+      ...page,
+      ...(page.offset + entries.length < matches.length && { nextOffset: page.offset + entries.length })
+    };
+  }
+
+  async *streamAuditEntries(workspaceId: string, filters: AuditFilters = {}, batchSize = STREAM_BATCH_SIZE): AsyncIterable<AuditEntry[]> {
+    const entries = this.auditEntries.filter(entry => matchesAuditFilters(entry, workspaceId, filters)).reverse();
+    for (let i = 0; i < entries.length; i += batchSize) {
+      yield entries.slice(i, i + batchSize);
+    }
+  }
+
+  async *streamAuditChain(batchSize = STREAM_BATCH_SIZE): AsyncIterable<AuditEntry[]> {
+    for (let i = 0; i < this.auditEntries.length; i += batchSize) {
+      yield this.auditEntries.slice(i, i + batchSize);
+    }
+  }
+
   async createFileProcessingResult(result: InsertFileProcessingResult): Promise<FileProcessingResult> {
     const id = randomUUID();
     const now = new Date();
@@ -49,28 +338,59 @@ export class MemStorage implements IStorage {
       id,
       createdAt: now,
       updatedAt: now,
-      extractedText: result.extractedText || null,
-      wordCount: result.wordCount || null,
-      characterCount: result.characterCount || null,
-      processingTime: result.processingTime || null,
-      errorMessage: result.errorMessage || null,
-      metadata: result.metadata || null
+      extractedText: result.extractedText ?? null,
+      wordCount: result.wordCount ?? null,
+      characterCount: result.characterCount ?? null,
+      processingTime: result.processingTime ?? null,
+      errorMessage: result.errorMessage ?? null,
+      metadata: result.metadata ?? null,
+      analysis: result.analysis ?? null,
+      ownerId: result.ownerId ?? null
     };
     this.fileProcessingResults.set(id, fileResult);
+    this.indexResult(fileResult);
     return fileResult;
   }
 
-  async getFileProcessingResult(id: string): Promise<FileProcessingResult | undefined> {
-    return this.fileProcessingResults.get(id);
+  async getFileProcessingResult(workspaceId: string, id: string): Promise<FileProcessingResult | undefined> {
+    const result = this.fileProcessingResults.get(id);
+    return result?.workspaceId === workspaceId ? result : undefined;
   }
 
-  async getAllFileProcessingResults(): Promise<FileProcessingResult[]> {
-    return Array.from(this.fileProcessingResults.values())
+  async getAllFileProcessingResults(workspaceId: string, filters: ResultFilters = {}): Promise<FileProcessingResult[]> {
+    return this.workspaceResults(workspaceId)
+      .filter(result => matchesFilters(result, filters))
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async updateFileProcessingResult(id: string, updates: Partial<InsertFileProcessingResult>): Promise<FileProcessingResult | undefined> {
-    const existing = this.fileProcessingResults.get(id);
+  async queryFileProcessingResults(workspaceId: string, query: ResultQuery): Promise<ResultPage> {
+    const { sort = 'createdAt', order = 'desc', limit = DEFAULT_RESULT_PAGE_SIZE, offset = 0 } = query;
+    const matches = this.workspaceResults(workspaceId)
+      .filter(result => matchesFilters(result, query))
+      .sort((a, b) => compareResults(a, b, sort, order));
+    return pageOf(matches.slice(offset, offset + limit), matches.length, limit, offset);
+  }
+
+  async searchFileProcessingResults(workspaceId: string, clauses: SearchClause[], page: { limit: number; offset: number }): Promise<RankedResults> {
+    // One index serves every workspace, ranks are only compared within this one
+    const ranked = this.searchIndex.search(clauses)
+      .map(({ id, score }) => ({ result: this.fileProcessingResults.get(id)!, score }))
+      .filter(({ result }) => result.workspaceId === workspaceId);
+    return {
+      results: ranked.slice(page.offset, page.offset + page.limit),
+      total: ranked.length
+    };
+  }
+
+  async *streamFileProcessingResults(workspaceId: string, filters: ResultFilters = {}, batchSize = STREAM_BATCH_SIZE): AsyncIterable<FileProcessingResult[]> {
+    const results = await this.getAllFileProcessingResults(workspaceId, filters);
+    for (let i = 0; i < results.length; i += batchSize) {
+      yield results.slice(i, i + batchSize);
+    }
+  }
+
+  async updateFileProcessingResult(workspaceId: string, id: string, updates: Partial<InsertFileProcessingResult>): Promise<FileProcessingResult | undefined> {
+    const existing = await this.getFileProcessingResult(workspaceId, id);
     if (!existing) return undefined;
 
     const updated: FileProcessingResult = {
@@ -79,16 +399,397 @@ export class MemStorage implements IStorage {
       updatedAt: new Date()
     };
     this.fileProcessingResults.set(id, updated);
+    if (updates.extractedText !== undefined || updates.analysis !== undefined) {
+      this.indexResult(updated);
+    }
     return updated;
   }
 
-  async deleteFileProcessingResult(id: string): Promise<boolean> {
+  async deleteFileProcessingResult(workspaceId: string, id: string): Promise<boolean> {
+    if (!(await this.getFileProcessingResult(workspaceId, id))) return false;
+    this.searchIndex.remove(id);
     return this.fileProcessingResults.delete(id);
   }
 
-  async deleteAllFileProcessingResults(): Promise<void> {
-    this.fileProcessingResults.clear();
+  async deleteAllFileProcessingResults(workspaceId: string): Promise<void> {
+    for (const result of this.workspaceResults(workspaceId)) {
+      this.searchIndex.remove(result.id);
+      this.fileProcessingResults.delete(result.id);
+    }
+  }
+
+  private workspaceResults(workspaceId: string): FileProcessingResult[] {
+    return Array.from(this.fileProcessingResults.values()).filter(result => result.workspaceId === workspaceId);
+  }
+
+  private indexResult(result: FileProcessingResult): void {
+    if (result.extractedText) {
+      this.searchIndex.add(result.id, result.extractedText, result.analysis?.language);
+    } else {
+      this.searchIndex.remove(result.id);
+    }
   }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      // Neon's Pool is a drop-in for node-postgres', its bundled typings just lag behind
+      pool: db.$client as pg.Pool,
+      tableName: 'session',
+      pruneSessionInterval: SESSION_PRUNE_INTERVAL / 1000
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async setOperator(userId: string, isOperator: boolean): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ isOperator }).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async createWorkspace(name: string, creatorId: string): Promise<Workspace> {
+    return this.db.transaction(async tx => {
+      const [workspace] = await tx.insert(workspaces).values({ name }).returning();
+      await tx.insert(workspaceMemberships).values({ workspaceId: workspace.id, userId: creatorId, role: 'admin' });
+      return workspace;
+    });
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<UserWorkspace[]> {
+    const rows = await this.db
+      .select({ workspace: workspaces, role: workspaceMemberships.role })
+      .from(workspaceMemberships)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMemberships.workspaceId))
+      .where(eq(workspaceMemberships.userId, userId))
+      .orderBy(asc(workspaces.createdAt));
+    return rows.map(({ workspace, role }) => ({ ...workspace, role }));
+  }
+
+  async getMembership(workspaceId: string, userId: string): Promise<WorkspaceMembership | undefined> {
+    const [membership] = await this.db
+      .select()
+      .from(workspaceMemberships)
+      .where(and(eq(workspaceMemberships.workspaceId, workspaceId), eq(workspaceMemberships.userId, userId)));
+    return membership;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.db
+      .select({
+        userId: workspaceMemberships.userId,
+        username: users.username,
+        role: workspaceMemberships.role,
+        createdAt: workspaceMemberships.createdAt
+      })
+      .from(workspaceMemberships)
+      .innerJoin(users, eq(users.id, workspaceMemberships.userId))
+      .where(eq(workspaceMemberships.workspaceId, workspaceId))
+      .orderBy(asc(users.username));
+  }
+
+  async setWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMembership> {
+    const [membership] = await this.db
+      .insert(workspaceMemberships)
+      .values({ workspaceId, userId, role })
+      .onConflictDoUpdate({ target: [workspaceMemberships.workspaceId, workspaceMemberships.userId], set: { role } })
+      .returning();
+    return membership;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMemberships)
+      .where(and(eq(workspaceMemberships.workspaceId, workspaceId), eq(workspaceMemberships.userId, userId)))
+      .returning({ userId: workspaceMemberships.userId });
+    return deleted.length > 0;
+  }
+
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const [key] = await this.db.insert(apiKeys).values(insertKey).returning();
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async getApiKeysForUser(userId: string): Promise<ApiKey[]> {
+    return this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await this.db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), eq(apiKeys.id, id)))
+      .returning({ id: apiKeys.id });
+    return deleted.length > 0;
+  }
+
+  async getUsage(workspaceId: string, day: string): Promise<UsageCounts> {
+    const [usage] = await this.db
+      .select({ files: usageCounters.files, bytes: usageCounters.bytes, ocrPages: usageCounters.ocrPages })
+      .from(usageCounters)
+      .where(and(eq(usageCounters.workspaceId, workspaceId), eq(usageCounters.day, day)));
+    return usage ?? { ...EMPTY_USAGE };
+  }
+
+  async addUsage(workspaceId: string, day: string, counts: Partial<UsageCounts>): Promise<UsageCounts> {
+    const files = counts.files ?? 0;
+    const bytes = counts.bytes ?? 0;
+    const ocrPages = counts.ocrPages ?? 0;
+    // Incremented in the upsert so concurrent uploads cannot lose each other's counts
+    const [usage] = await this.db
+      .insert(usageCounters)
+      .values({ workspaceId, day, files, bytes, ocrPages })
+      .onConflictDoUpdate({
+        target: [usageCounters.workspaceId, usageCounters.day],
+        set: {
+          files: sql`${usageCounters.files} + ${files}`,
+          bytes: sql`${usageCounters.bytes} + ${bytes}`,
+          ocrPages: sql`${usageCounters.ocrPages} + ${ocrPages}`
+        }
+      })
+      .returning({ files: usageCounters.files, bytes: usageCounters.bytes, ocrPages: usageCounters.ocrPages });
+    return usage;
+  }
+
+  async appendAuditEntry(entry: NewAuditEntry): Promise<AuditEntry> {
+    return this.db.transaction(async tx => {
+      // Serializes appends across processes, each entry has to chain to the one before it
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_LOCK_KEY})`);
+      const [last] = await tx.select({ hash: auditLog.hash }).from(auditLog).orderBy(desc(auditLog.id)).limit(1);
+      const prevHash = last?.hash ?? AUDIT_GENESIS_HASH;
+      const [appended] = await tx
+        .insert(auditLog)
+        .values({ ...entry, prevHash, hash: hashAuditEntry(prevHash, entry) })
+        .returning();
+      return appended;
+    });
+  }
+
+  async queryAuditEntries(workspaceId: string, filters: AuditFilters, page: { limit: number; offset: number }): Promise<AuditPage> {
+    const where = this.auditConditions(workspaceId, filters);
+    const [entries, [{ total }]] = await Promise.all([
+      this.db.select().from(auditLog).where(where).orderBy(desc(auditLog.id)).limit(page.limit).offset(page.offset),
+      this.db.select({ total: count() }).from(auditLog).where(where)
+    ]);
+    return {
+      entries,
+      total,
+      ...page,
+      ...(page.offset + entries.length < total && { nextOffset: page.offset + entries.length })
+    };
+  }
+
+  async *streamAuditEntries(workspaceId: string, filters: AuditFilters = {}, batchSize = STREAM_BATCH_SIZE): AsyncIterable<AuditEntry[]> {
+    let lastId: number | undefined;
+    while (true) {
+      const batch = await this.db
+        .select()
+        .from(auditLog)
+        .where(and(this.auditConditions(workspaceId, filters), lastId !== undefined ? lt(auditLog.id, lastId) : undefined))
+        .orderBy(desc(auditLog.id))
+        .limit(batchSize);
+      if (batch.length > 0) yield batch;
+      if (batch.length < batchSize) return;
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  async *streamAuditChain(batchSize = STREAM_BATCH_SIZE): AsyncIterable<AuditEntry[]> {
+    let lastId = 0;
+    while (true) {
+      const batch = await this.db
+        .select()
+        .from(auditLog)
+        .where(gt(auditLog.id, lastId))
+        .orderBy(asc(auditLog.id))
+        .limit(batchSize);
+      if (batch.length > 0) yield batch;
+      if (batch.length < batchSize) return;
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  private auditConditions(workspaceId: string, filters: AuditFilters): SQL | undefined {
+    return and(
+      eq(auditLog.workspaceId, workspaceId),
+      filters.action ? eq(auditLog.action, filters.action) : undefined,
+      filters.actorId ? eq(auditLog.actorId, filters.actorId) : undefined,
+      filters.resultId ? eq(auditLog.resultId, filters.resultId) : undefined,
+      filters.since ? gte(auditLog.timestamp, filters.since) : undefined,
+      filters.until ? lte(auditLog.timestamp, filters.until) : undefined
+    );
+  }
+
+  async createFileProcessingResult(result: InsertFileProcessingResult): Promise<FileProcessingResult> {
+    const [fileResult] = await this.db.insert(fileProcessingResults).values(result).returning();
+    return fileResult;
+  }
+
+  async getFileProcessingResult(workspaceId: string, id: string): Promise<FileProcessingResult | undefined> {
+    const [fileResult] = await this.db
+      .select()
+      .from(fileProcessingResults)
+      .where(this.byId(workspaceId, id));
+    return fileResult;
+  }
+
+  async getAllFileProcessingResults(workspaceId: string, filters: ResultFilters = {}): Promise<FileProcessingResult[]> {
+    return this.db
+      .select()
+      .from(fileProcessingResults)
+      .where(this.filterConditions(workspaceId, filters))
+      .orderBy(desc(fileProcessingResults.createdAt));
+  }
+
+  async queryFileProcessingResults(workspaceId: string, query: ResultQuery): Promise<ResultPage> {
+    const { sort = 'createdAt', order = 'desc', limit = DEFAULT_RESULT_PAGE_SIZE, offset = 0 } = query;
+    const where = this.filterConditions(workspaceId, query);
+    const column = fileProcessingResults[sort];
+    const direction = order === 'asc' ? sql`asc` : sql`desc`;
+
+    const [results, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(fileProcessingResults)
+        .where(where)
+        .orderBy(sql`${column} ${direction} nulls last`, sql`${fileProcessingResults.id} ${direction}`)
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ total: count() }).from(fileProcessingResults).where(where)
+    ]);
+    return pageOf(results, total, limit, offset);
+  }
+
+  // Each query word is stemmed in every search language, rows were stemmed in their own
+  async searchFileProcessingResults(workspaceId: string, clauses: SearchClause[], page: { limit: number; offset: number }): Promise<RankedResults> {
+    if (clauses.length === 0) return { results: [], total: 0 };
+    const tsQuery = toTsQuery(clauses);
+    const query = sql`(to_tsquery('english', ${tsQuery}) || to_tsquery('spanish', ${tsQuery}) || to_tsquery('french', ${tsQuery}))`;
+    const document = resultSearchDocument(fileProcessingResults);
+    const where = and(eq(fileProcessingResults.workspaceId, workspaceId), sql`${document} @@ ${query}`);
+    const score = sql<number>`ts_rank_cd(${document}, ${query}, 1)`.mapWith(Number);
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select({ result: fileProcessingResults, score })
+        .from(fileProcessingResults)
+        .where(where)
+        .orderBy(desc(score), desc(fileProcessingResults.createdAt))
+        .limit(page.limit)
+        .offset(page.offset),
+      this.db.select({ total: count() }).from(fileProcessingResults).where(where)
+    ]);
+    return { results: rows, total };
+  }
+
+  // Keyset pagination on (createdAt, id), unlike offsets it stays fast deep into the history
+  async *streamFileProcessingResults(workspaceId: string, filters: ResultFilters = {}, batchSize = STREAM_BATCH_SIZE): AsyncIterable<FileProcessingResult[]> {
+    let last: FileProcessingResult | undefined;
+    while (true) {
+      const after = last && or(
+        lt(fileProcessingResults.createdAt, last.createdAt),
+        and(eq(fileProcessingResults.createdAt, last.createdAt), lt(fileProcessingResults.id, last.id))
+      );
+      const batch = await this.db
+        .select()
+        .from(fileProcessingResults)
+        .where(and(this.filterConditions(workspaceId, filters), after))
+        .orderBy(desc(fileProcessingResults.createdAt), desc(fileProcessingResults.id))
+        .limit(batchSize);
+      if (batch.length > 0) yield batch;
+      if (batch.length < batchSize) return;
+      last = batch[batch.length - 1];
+    }
+  }
+
+  async updateFileProcessingResult(workspaceId: string, id: string, updates: Partial<InsertFileProcessingResult>): Promise<FileProcessingResult | undefined> {
+    const [updated] = await this.db
+      .update(fileProcessingResults)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(this.byId(workspaceId, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFileProcessingResult(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fileProcessingResults)
+      .where(this.byId(workspaceId, id))
+      .returning({ id: fileProcessingResults.id });
+    return deleted.length > 0;
+  }
+
+  async deleteAllFileProcessingResults(workspaceId: string): Promise<void> {
+    await this.db.delete(fileProcessingResults).where(eq(fileProcessingResults.workspaceId, workspaceId));
+  }
+
+  private byId(workspaceId: string, id: string): SQL | undefined {
+    return and(eq(fileProcessingResults.workspaceId, workspaceId), eq(fileProcessingResults.id, id));
+  }
+
+  private filterConditions(workspaceId: string, filters: ResultFilters): SQL | undefined {
+    const conditions: SQL[] = [eq(fileProcessingResults.workspaceId, workspaceId)];
+    if (filters.status) conditions.push(eq(fileProcessingResults.status, filters.status));
+    if (filters.type) {
+      conditions.push(filters.type === 'image'
+        ? like(fileProcessingResults.mimeType, 'image/%')
+        : eq(fileProcessingResults.mimeType, FILE_TYPE_MIME_TYPES[filters.type]));
+    }
+    if (filters.mimeType) {
+      conditions.push(filters.mimeType.endsWith('/*')
+        ? like(fileProcessingResults.mimeType, `${escapeLike(filters.mimeType.slice(0, -1))}%`)
+        : eq(fileProcessingResults.mimeType, filters.mimeType));
+    }
+    if (filters.from) conditions.push(gte(fileProcessingResults.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(fileProcessingResults.createdAt, filters.to));
+    if (filters.language) conditions.push(sql`${fileProcessingResults.analysis}->>'language' = ${filters.language}`);
+    if (filters.hasPII !== undefined) {
+      conditions.push(sql`coalesce((${fileProcessingResults.analysis}->>'containsPII')::boolean, false) = ${filters.hasPII}`);
+    }
+    if (filters.q) {
+      const pattern = `%${escapeLike(filters.q)}%`;
+      conditions.push(or(ilike(fileProcessingResults.originalName, pattern), ilike(fileProcessingResults.extractedText, pattern))!);
+    }
+    return and(...conditions);
+  }
+}
+
+// LIKE treats % and _ as wildcards, user input has to match them literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
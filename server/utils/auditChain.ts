@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import type { AuditEntry, AuditVerification, NewAuditEntry } from '@shared/schema';
+
+// What the first entry chains to
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Object keys sorted at every level, Postgres jsonb does not keep the order they were written in.
+// Dates and the like hash as what they are stored as
+function canonicalJson(value: unknown): string {
+  if (value && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalJson((value as { toJSON: () => unknown }).toJSON());
+  }
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 over the previous entry's hash and every recorded field, so changing, removing or
+ * reordering an entry breaks the chain from there on.
+ */
+export function hashAuditEntry(prevHash: string, entry: NewAuditEntry): string {
+  return createHash('sha256').update(canonicalJson([
+    prevHash,
+    entry.timestamp.toISOString(),
+    entry.workspaceId,
+    entry.actorId,
+    entry.actorName,
+    entry.apiKeyId,
+    entry.action,
+    entry.resultId,
+    entry.ip,
+    entry.userAgent,
+    entry.details
+  ])).digest('hex');
+}
+
+/**
+ * Recomputes the chain in id order and reports the first entry that does not match.
+ */
+export async function verifyAuditChain(batches: AsyncIterable<AuditEntry[]>): Promise<AuditVerification> {
+  let prevHash = AUDIT_GENESIS_HASH;
+  let checked = 0;
+  for await (const batch of batches) {
+    for (const entry of batch) {
+      if (entry.prevHash !== prevHash || hashAuditEntry(entry.prevHash, entry) !== entry.hash) {
+        return { valid: false, checked, brokenAt: entry.id };
+      }
+      prevHash = entry.hash;
+      checked++;
+    }
+  }
+  return { valid: true, checked };
+}
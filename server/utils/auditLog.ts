@@ -0,0 +1,53 @@
+import type { Request } from 'express';
+import { storage } from '../storage';
+import { AUDIT_ACTIONS, type AuditAction, type AuditEntry, type AuditFilters } from '@shared/schema';
+import { parseDate, parseEndDate, queryValue } from './queryParams';
+
+/**
+ * Records an action of the request's user in its workspace.
+ */
+export async function audit(
+  req: Request,
+  action: AuditAction,
+  target: { resultId?: string; details?: Record<string, unknown> } = {}
+): Promise<AuditEntry> {
+  return storage.appendAuditEntry({
+    timestamp: new Date(),
+    workspaceId: req.workspace.id,
+    actorId: req.user!.id,
+    actorName: req.user!.username,
+    apiKeyId: req.apiKey?.id ?? null,
+    action,
+    resultId: target.resultId ?? null,
+    ip: req.ip ?? null,
+    userAgent: req.get('User-Agent') ?? null,
+    details: target.details ?? null
+  });
+}
+
+/**
+ * Reads the audit trail filters from a query string: action, actorId, resultId, since and until.
+ */
+export function parseAuditFilters(query: Record<string, unknown>): AuditFilters {
+  const filters: AuditFilters = {};
+
+  const action = queryValue(query.action);
+  if (action) {
+    if (!(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+      throw new Error(`Unknown action '${action}'. Use ${AUDIT_ACTIONS.join(', ')}`);
+    }
+    filters.action = action as AuditFilters['action'];
+  }
+
+  const actorId = queryValue(query.actorId);
+  if (actorId) filters.actorId = actorId;
+  const resultId = queryValue(query.resultId);
+  if (resultId) filters.resultId = resultId;
+
+  const since = queryValue(query.since);
+  if (since) filters.since = parseDate(since, 'since');
+  const until = queryValue(query.until);
+  if (until) filters.until = parseEndDate(until, 'until');
+
+  return filters;
+}
@@ -12,6 +12,9 @@ interface BatchJob {
   error?: string;
 }
 
+// The signal aborts when the attempt times out; the processor must not write anything after that
+type JobProcessor = (file: any, updateProgress: (progress: number) => void, signal: AbortSignal) => Promise<any>;
+
 interface BatchProcessorOptions {
   maxConcurrency?: number;
   retryAttempts?: number;
@@ -31,7 +34,7 @@ export class BatchProcessor extends EventEmitter {
     super();
     this.options = {
       maxConcurrency: options.maxConcurrency || 3,
-      retryAttempts: options.retryAttempts || 2,
+      retryAttempts: options.retryAttempts ?? 2,
       timeout: options.timeout || 30000, // 30 seconds
       onProgress: options.onProgress || (() => {}),
       onJobComplete: options.onJobComplete || (() => {}),
@@ -49,7 +52,7 @@ export class BatchProcessor extends EventEmitter {
     this.jobs.set(id, job);
   }
 
-  async processBatch(processor: (file: any, updateProgress: (progress: number) => void) => Promise<any>): Promise<Map<string, BatchJob>> {
+  async processBatch(processor: JobProcessor): Promise<Map<string, BatchJob>> {
     if (this.jobs.size === 0) {
       throw new Error('No jobs to process');
     }
@@ -57,35 +60,25 @@ export class BatchProcessor extends EventEmitter {
     this.processingStartTime = performance.now();
     const pendingJobs = Array.from(this.jobs.values()).filter(job => job.status === 'pending');
     
-    // Process jobs with concurrency limit
-    const promises: Promise<void>[] = [];
-    let jobIndex = 0;
-
-    while (jobIndex < pendingJobs.length || this.activeJobs.size > 0) {
-      // Start new jobs if we haven't hit the concurrency limit
-      while (this.activeJobs.size < this.options.maxConcurrency && jobIndex < pendingJobs.length) {
-        const job = pendingJobs[jobIndex];
-        this.activeJobs.add(job.id);
-        
-        const promise = this.processJob(job, processor)
-          .finally(() => {
-            this.activeJobs.delete(job.id);
-          });
-        
-        promises.push(promise);
-        jobIndex++;
-      }
+    // Process jobs with concurrency limit, only racing the jobs that are still running
+    const running = new Set<Promise<void>>();
 
-      // Wait for at least one job to complete before checking again
-      if (this.activeJobs.size >= this.options.maxConcurrency) {
-        await Promise.race(promises.filter(p => p));
-      } else {
-        break;
+    for (const job of pendingJobs) {
+      if (running.size >= this.options.maxConcurrency) {
+        await Promise.race(running);
       }
+
+      this.activeJobs.add(job.id);
+      const promise: Promise<void> = this.processJob(job, processor)
+        .finally(() => {
+          this.activeJobs.delete(job.id);
+          running.delete(promise);
+        });
+      running.add(promise);
     }
 
     // Wait for all remaining jobs to complete
-    await Promise.allSettled(promises);
+    await Promise.allSettled(running);
 
     this.emit('batchComplete', {
       total: this.jobs.size,
@@ -97,7 +90,7 @@ export class BatchProcessor extends EventEmitter {
     return this.jobs;
   }
 
-  private async processJob(job: BatchJob, processor: (file: any, updateProgress: (progress: number) => void) => Promise<any>): Promise<void> {
+  private async processJob(job: BatchJob, processor: JobProcessor): Promise<void> {
     let attempts = 0;
     const maxAttempts = this.options.retryAttempts + 1;
 
@@ -115,11 +108,19 @@ export class BatchProcessor extends EventEmitter {
           this.updateProgress(job);
         };
 
-        // Process with timeout
+        // Process with timeout, aborting the attempt so it stops writing once the job has given up on it
+        const controller = new AbortController();
+        let timer: NodeJS.Timeout | undefined;
         const result = await Promise.race([
-          processor(job.file, updateProgress),
-          this.createTimeoutPromise(this.options.timeout)
-        ]);
+          processor(job.file, updateProgress, controller.signal),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              const error = new Error(`Processing timeout after ${this.options.timeout}ms`);
+              controller.abort(error);
+              reject(error);
+            }, this.options.timeout);
+          })
+        ]).finally(() => clearTimeout(timer));
 
         job.status = 'completed';
         job.progress = 100;
@@ -156,14 +157,6 @@ export class BatchProcessor extends EventEmitter {
     }
   }
 
-  private createTimeoutPromise(timeout: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Processing timeout after ${timeout}ms`));
-      }, timeout);
-    });
-  }
-
   private updateProgress(job: BatchJob): void {
     const completedJobs = Array.from(this.jobs.values()).filter(j => j.status === 'completed').length;
     const totalJobs = this.jobs.size;
@@ -233,4 +226,6 @@ export class BatchProcessor extends EventEmitter {
       totalProcessingTime
     };
   }
-}
\ No newline at end of file
+}
+
+export type { BatchJob, BatchProcessorOptions, JobProcessor };
@@ -0,0 +1,112 @@
+import { parsePDF } from './pdfParser';
+import { performOCR } from './ocrParser';
+import { parseDocx } from './docxParser';
+import { parseTxt } from './txtParser';
+import { ocrScannedPages } from './pdfOcrFallback';
+import { logger } from './logger';
+import type { ExtractedPage } from '@shared/schema';
+
+export type SourceType = 'pdf' | 'ocr' | 'docx' | 'txt';
+
+export interface ExtractedContent {
+  rawText: string;
+  sourceType: SourceType;
+  pages?: ExtractedPage[]; // Raw text per page for paged documents
+  metadata?: Record<string, any>; // Merged into the result's metadata
+  image?: Buffer; // Preprocessed image the OCR word boxes refer to, replaces the stored upload
+}
+
+export interface ExtractionOptions {
+  requestId?: string;
+  pages?: number[]; // Page selection for paged documents
+  languages?: string; // OCR languages for images, scanned PDF pages and DOCX images
+  ocrImages?: boolean; // Recognize text in images embedded in DOCX files
+  reserveOcrPage?: () => Promise<void>; // Charges each image, scanned page and embedded image before its OCR
+  onProgress?: (progress: number) => void; // Fraction from 0 to 1, only reported by OCR, scanned PDFs and DOCX images
+}
+
+export function getSourceType(mimeType: string): SourceType | undefined {
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('image/')) return 'ocr';
+  if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
+  if (mimeType === 'text/plain') return 'txt';
+  return undefined;
+}
+
+export async function extractContent(
+  file: { mimetype: string; buffer: Buffer },
+  options: ExtractionOptions = {}
+): Promise<ExtractedContent> {
+  const { requestId } = options;
+  const sourceType = getSourceType(file.mimetype);
+
+  // Process based on file type
+  let rawText: string;
+  let pages: ExtractedPage[] | undefined;
+  let metadata: Record<string, any> | undefined;
+  let image: Buffer | undefined;
+  switch (sourceType) {
+    case 'pdf': {
+      const document = await parsePDF(file.buffer, { requestId, pages: options.pages });
+      pages = await ocrScannedPages(file.buffer, document.pages, {
+        requestId,
+        languages: options.languages,
+        reserveOcrPage: options.reserveOcrPage,
+        onProgress: options.onProgress
+      });
+      rawText = pages
+        .map(page => page.text)
+        .filter(pageText => pageText.length > 0)
+        .join('\n\n');
+
+      if (rawText.trim().length === 0) {
+        const ocrError = pages.find(page => page.error)?.error;
+        throw new Error(`No text content found in PDF${ocrError ? `, OCR of the scanned pages failed: ${ocrError}` : '. The PDF might be corrupted.'}`);
+      }
+      metadata = { document: document.info };
+      break;
+    }
+    case 'ocr': {
+      await options.reserveOcrPage?.();
+      const ocr = await performOCR(file.buffer, {
+        requestId,
+        languages: options.languages,
+        onProgress: options.onProgress
+      });
+      rawText = ocr.text;
+      metadata = {
+        ocrConfidence: ocr.confidence,
+        ocrLanguages: ocr.languages,
+        ...(ocr.script && { ocrScript: ocr.script }),
+        ocrWords: ocr.words,
+        ...(ocr.preprocessing && { ocrPreprocessing: ocr.preprocessing })
+      };
+      image = ocr.image;
+      break;
+    }
+    case 'docx': {
+      const document = await parseDocx(file.buffer, {
+        requestId,
+        ocrImages: options.ocrImages,
+        languages: options.languages,
+        reserveOcrPage: options.reserveOcrPage,
+        onProgress: options.onProgress
+      });
+      rawText = document.text;
+      metadata = { structure: document.structure };
+      break;
+    }
+    case 'txt':
+      rawText = await parseTxt(file.buffer, { requestId });
+      break;
+    default:
+      throw new Error('Unsupported file type');
+  }
+
+  logger.debug(`Text extracted`, 'processing', {
+    sourceType,
+    rawLength: rawText.length
+  }, requestId);
+
+  return { rawText, sourceType, pages, metadata, ...(image && { image }) };
+}
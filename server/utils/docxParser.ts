@@ -1,32 +1,82 @@
 import mammoth from 'mammoth';
+import { parseDocument } from 'htmlparser2';
+import { Element, Text, type ChildNode } from 'domhandler';
+import { logger } from './logger';
+import { performOCR } from './ocrParser';
+import type { DocumentBlock, DocumentInline, DocumentNote, DocumentStructure } from '@shared/schema';
 
-export async function parseDocx(buffer: Buffer): Promise<string> {
+interface DocxParseOptions {
+  requestId?: string;
+  ocrImages?: boolean; // Recognize text in embedded images
+  languages?: string; // OCR languages for embedded images
+  reserveOcrPage?: () => Promise<void>; // Called before each image, throws once no more may be recognized
+  onProgress?: (progress: number) => void; // Image OCR progress from 0 to 1
+}
+
+export interface DocxDocument {
+  text: string;
+  structure: DocumentStructure;
+}
+
+// Word styles mammoth does not map by default
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+  'comment-reference => sup'
+];
+
+// Embedded images are replaced by this src and their index, so blocks can be matched to them
+const IMAGE_SRC_PREFIX = 'docx-image:';
+
+// Images tesseract can read
+const OCR_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/webp', 'image/tiff'];
+
+interface EmbeddedImage {
+  buffer: Buffer;
+  contentType: string;
+}
+
+export async function parseDocx(buffer: Buffer, options: DocxParseOptions = {}): Promise<DocxDocument> {
   try {
     if (!buffer || buffer.length === 0) {
       throw new Error('Empty DOCX buffer provided');
     }
 
-    // Use mammoth to extract text from DOCX
-    const result = await mammoth.extractRawText({ buffer });
-    
-    if (!result.value || result.value.trim().length === 0) {
-      throw new Error('No text content found in DOCX file. The document might be empty or corrupted.');
+    // Convert to HTML, which keeps headings, lists, tables and links, then read the structure from it
+    const images: EmbeddedImage[] = [];
+    const result = await mammoth.convertToHtml({ buffer }, {
+      styleMap: STYLE_MAP,
+      convertImage: mammoth.images.imgElement(async image => {
+        images.push({ buffer: await image.readAsBuffer(), contentType: image.contentType });
+        return { src: IMAGE_SRC_PREFIX + (images.length - 1) };
+      })
+    });
+    const { structure, imageBlocks } = htmlToStructure(result.value);
+
+    if (options.ocrImages && imageBlocks.size > 0) {
+      await recognizeImages(images, imageBlocks, options);
     }
 
-    // Clean up the extracted text
-    const cleanedText = result.value
-      .replace(/\r\n/g, '\n')  // Normalize line endings
-      .replace(/\n{3,}/g, '\n\n')  // Remove excessive newlines
-      .replace(/\t+/g, ' ')  // Replace tabs with spaces
-      .replace(/ {2,}/g, ' ')  // Replace multiple spaces with single space
-      .trim();
+    const text = structureToText(structure);
+    if (text.trim().length === 0) {
+      throw new Error('No text content found in DOCX file. The document might be empty or corrupted.');
+    }
 
     // Log warnings if any
     if (result.messages && result.messages.length > 0) {
-      console.warn('DOCX parsing warnings:', result.messages.map(m => m.message));
+      logger.warn('DOCX parsing warnings', 'processing', {
+        warnings: result.messages.map(m => m.message)
+      }, options.requestId);
     }
+    logger.debug('DOCX parsed', 'processing', {
+      blocks: structure.blocks.length,
+      headings: structure.outline.length,
+      links: structure.links.length,
+      notes: structure.notes.length,
+      images: images.length
+    }, options.requestId);
 
-    return cleanedText;
+    return { text, structure };
 
   } catch (error) {
     if (error instanceof Error) {
@@ -41,4 +91,262 @@ export async function parseDocx(buffer: Buffer): Promise<string> {
     }
     throw new Error('Unknown error occurred while parsing DOCX');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Plain text of a structured document: blocks separated by blank lines, list items on their
+ * own lines, table cells separated by " | " and notes at the end.
+ */
+export function structureToText(structure: DocumentStructure): string {
+  const notes = structure.notes.map(note => note.label ? `${note.label} ${note.text}` : note.text);
+  return [...structure.blocks.map(block => blockToText(block)), ...notes]
+    .filter(text => text.trim().length > 0)
+    .join('\n\n');
+}
+
+function blockToText(block: DocumentBlock, depth = 0): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.content);
+    case 'list':
+      return block.items.map((item, index) => {
+        const marker = block.ordered ? `${index + 1}.` : '-';
+        const [first, ...rest] = item.map(child => blockToText(child, depth + 1)).filter(Boolean);
+        const lines = [`${'  '.repeat(depth)}${marker} ${first ?? ''}`, ...rest];
+        return lines.join('\n');
+      }).join('\n');
+    case 'table':
+      return block.rows.map(row => row.join(' | ')).join('\n');
+    case 'image':
+      return block.text ?? '';
+  }
+}
+
+function inlineText(content: DocumentInline[]): string {
+  return content.map(inline => inline.text).join('').trim();
+}
+
+interface ParseContext {
+  links: DocumentStructure['links'];
+  notes: DocumentNote[];
+  imageBlocks: Map<number, Extract<DocumentBlock, { type: 'image' }>>; // By embedded image index
+}
+
+function htmlToStructure(html: string) {
+  const context: ParseContext = { links: [], notes: [], imageBlocks: new Map() };
+  const blocks = toBlocks(parseDocument(html).children, context);
+
+  const outline = blocks.flatMap((block, index) =>
+    block.type === 'heading' ? [{ level: block.level, text: inlineText(block.content), block: index }] : []
+  );
+  const structure: DocumentStructure = { outline, blocks, links: context.links, notes: context.notes };
+  return { structure, imageBlocks: context.imageBlocks };
+}
+
+function toBlocks(nodes: ChildNode[], context: ParseContext): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  // Loose inline content, such as the text of a list item before a nested list
+  let pending: ChildNode[] = [];
+  const flush = () => {
+    if (pending.length > 0) blocks.push(...paragraphBlocks('paragraph', pending, context));
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (!(node instanceof Element)) {
+      pending.push(node);
+      continue;
+    }
+
+    const tag = node.name;
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      blocks.push(...paragraphBlocks('heading', node.children, context, Number(tag[1])));
+    } else if (tag === 'p') {
+      flush();
+      blocks.push(...paragraphBlocks('paragraph', node.children, context));
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      const items = node.children.filter((child): child is Element => child instanceof Element && child.name === 'li');
+      // Footnotes and endnotes come as a list of items with ids at the end of the document
+      const noteKind = items[0]?.attribs.id?.match(/^(footnote|endnote)-/)?.[1] as DocumentNote['kind'] | undefined;
+      if (noteKind) {
+        for (const item of items) {
+          context.notes.push({ id: item.attribs.id, kind: noteKind, label: `[${item.attribs.id.split('-').pop()}]`, text: noteText(item) });
+        }
+      } else {
+        blocks.push({ type: 'list', ordered: tag === 'ol', items: items.map(item => toBlocks(item.children, context)) });
+      }
+    } else if (tag === 'table') {
+      flush();
+      blocks.push({ type: 'table', rows: tableRows(node, context) });
+    } else if (tag === 'dl') {
+      flush();
+      // Comments: a term with the comment's id and label, then its text
+      let label: Element | undefined;
+      for (const child of node.children) {
+        if (!(child instanceof Element)) continue;
+        if (child.name === 'dt') label = child;
+        if (child.name === 'dd' && label) {
+          context.notes.push({ id: label.attribs.id ?? '', kind: 'comment', label: elementText(label), text: noteText(child) });
+        }
+      }
+    } else if (['div', 'section', 'article', 'blockquote'].includes(tag)) {
+      flush();
+      blocks.push(...toBlocks(node.children, context));
+    } else {
+      pending.push(node);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// A paragraph or heading, followed by any images it contained
+function paragraphBlocks(
+  type: 'paragraph' | 'heading',
+  nodes: ChildNode[],
+  context: ParseContext,
+  level = 1
+): DocumentBlock[] {
+  const images: DocumentBlock[] = [];
+  const content = mergeInlines(nodes.flatMap(node => toInlines(node, {}, context, images)));
+  const blocks: DocumentBlock[] = [];
+  if (inlineText(content).length > 0) {
+    blocks.push(type === 'heading' ? { type, level, content } : { type, content });
+  }
+  return [...blocks, ...images];
+}
+
+function toInlines(
+  node: ChildNode,
+  marks: Omit<DocumentInline, 'text'>,
+  context: ParseContext,
+  images: DocumentBlock[]
+): DocumentInline[] {
+  if (node instanceof Text) {
+    return node.data ? [{ text: node.data, ...marks }] : [];
+  }
+  if (!(node instanceof Element)) return [];
+
+  switch (node.name) {
+    case 'br':
+      return [{ text: '\n', ...marks }];
+    case 'img': {
+      const index = node.attribs.src?.startsWith(IMAGE_SRC_PREFIX) ? Number(node.attribs.src.slice(IMAGE_SRC_PREFIX.length)) : undefined;
+      const block: Extract<DocumentBlock, { type: 'image' }> = { type: 'image', ...(node.attribs.alt && { altText: node.attribs.alt }) };
+      if (index !== undefined) context.imageBlocks.set(index, block);
+      images.push(block);
+      return [];
+    }
+    case 'strong':
+    case 'b':
+      return node.children.flatMap(child => toInlines(child, { ...marks, bold: true }, context, images));
+    case 'em':
+    case 'i':
+      return node.children.flatMap(child => toInlines(child, { ...marks, italic: true }, context, images));
+    case 'a': {
+      const href = node.attribs.href;
+      if (!href) break;
+      // Links from notes back to where they are referenced carry no content
+      if (/^#(footnote|endnote|comment)-ref-/.test(href)) return [];
+      const inlines = node.children.flatMap(child => toInlines(child, { ...marks, href }, context, images));
+      if (!href.startsWith('#')) {
+        context.links.push({ text: inlines.map(inline => inline.text).join('').trim(), href });
+      }
+      return inlines;
+    }
+  }
+  return node.children.flatMap(child => toInlines(child, marks, context, images));
+}
+
+// Joins neighbouring runs with the same formatting
+function mergeInlines(inlines: DocumentInline[]): DocumentInline[] {
+  const merged: DocumentInline[] = [];
+  for (const inline of inlines) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.href === inline.href && previous.bold === inline.bold && previous.italic === inline.italic) {
+      previous.text += inline.text;
+    } else {
+      merged.push({ ...inline });
+    }
+  }
+  return merged;
+}
+
+function tableRows(table: Element, context: ParseContext): string[][] {
+  const rows: string[][] = [];
+  const visit = (element: Element) => {
+    for (const child of element.children) {
+      if (!(child instanceof Element)) continue;
+      if (child.name === 'tr') {
+        const cells = child.children.filter((cell): cell is Element => cell instanceof Element && (cell.name === 'td' || cell.name === 'th'));
+        rows.push(cells.map(cell => cellText(cell, context)));
+      } else if (child.name !== 'table') {
+        visit(child); // thead, tbody, tfoot
+      }
+    }
+  };
+  visit(table);
+  return rows;
+}
+
+// Paragraphs of a cell on separate lines, links still end up in the link list
+function cellText(cell: Element, context: ParseContext): string {
+  return toBlocks(cell.children, context).map(block => blockToText(block)).filter(Boolean).join('\n');
+}
+
+function noteText(element: Element): string {
+  const blocks = toBlocks(element.children, { links: [], notes: [], imageBlocks: new Map() });
+  return blocks.map(block => blockToText(block)).filter(Boolean).join('\n');
+}
+
+function elementText(node: ChildNode): string {
+  if (node instanceof Text) return node.data;
+  if (node instanceof Element) return node.children.map(elementText).join('');
+  return '';
+}
+
+// OCR embedded images one at a time, a failed image keeps the rest of the document. Once
+// reserveOcrPage refuses an image, it and the images after it are left unrecognized
+async function recognizeImages(
+  images: EmbeddedImage[],
+  imageBlocks: ParseContext['imageBlocks'],
+  options: DocxParseOptions
+): Promise<void> {
+  const entries = Array.from(imageBlocks.entries());
+  for (let i = 0; i < entries.length; i++) {
+    const [index, block] = entries[i];
+    const image = images[index];
+    if (!OCR_IMAGE_TYPES.includes(image.contentType)) {
+      block.error = `Cannot recognize text in ${image.contentType} images`;
+      continue;
+    }
+
+    try {
+      await options.reserveOcrPage?.();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      for (const [, skipped] of entries.slice(i)) {
+        skipped.error = message;
+      }
+      logger.warn('DOCX image OCR stopped', 'processing', { skipped: entries.length - i, error: message }, options.requestId);
+      break;
+    }
+
+    try {
+      const ocr = await performOCR(image.buffer, {
+        requestId: options.requestId,
+        languages: options.languages,
+        onProgress: (progress) => options.onProgress?.((i + progress) / entries.length)
+      });
+      block.text = ocr.text;
+      block.confidence = ocr.confidence;
+    } catch (error) {
+      block.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('DOCX image OCR failed', 'processing', { image: index, error: block.error }, options.requestId);
+    }
+    options.onProgress?.((i + 1) / entries.length);
+  }
+}
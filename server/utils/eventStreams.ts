@@ -0,0 +1,25 @@
+import type { Response } from 'express';
+
+// Open Server-Sent Event responses, so shutdown can end them instead of cutting them off
+const openStreams = new Set<Response>();
+
+/**
+ * Sends the event stream headers and tracks the response until it closes.
+ */
+export function openEventStream(res: Response): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  openStreams.add(res);
+  res.on('close', () => openStreams.delete(res));
+}
+
+// Ends every open stream, their close handlers stop heartbeats and unsubscribe
+export function endEventStreams(): void {
+  for (const res of Array.from(openStreams)) {
+    res.end();
+  }
+  openStreams.clear();
+}
@@ -0,0 +1,346 @@
+import { Jimp } from 'jimp';
+import type { PreprocessingStep, PreprocessingStepName } from '@shared/schema';
+
+// Steps in the order they run. Grayscale conversion always happens first, every step works on it
+export const PREPROCESSING_STEPS: PreprocessingStepName[] = [
+  'exifRotate',
+  'invert',
+  'upscale',
+  'normalize',
+  'osdRotate',
+  'deskew',
+  'binarize'
+];
+
+interface PreprocessOptions {
+  steps?: PreprocessingStepName[];
+  // Orientation from OSD on the image so far, degrees to rotate clockwise or null when unknown
+  detectRotation?: (image: Buffer) => Promise<number | null>;
+}
+
+export interface PreprocessResult {
+  image: Buffer; // PNG
+  steps: PreprocessingStep[];
+}
+
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const TARGET_LONG_SIDE = 1800; // Upscale smaller images towards this, tesseract prefers ~300 DPI text
+const MAX_UPSCALE = 3;
+const DARK_MODE_LUMINANCE = 110; // Mean luminance below this is treated as light text on dark
+const MAX_SKEW = 10; // Degrees searched by deskew
+
+/**
+ * Cleans up an image for OCR: photos and screenshots become upright, high-contrast black
+ * text on white. Runs entirely in JavaScript.
+ */
+export async function preprocessImage(buffer: Buffer, options: PreprocessOptions = {}): Promise<PreprocessResult> {
+  const enabled = new Set(options.steps ?? PREPROCESSING_STEPS);
+  const steps: PreprocessingStep[] = [];
+
+  // Decoding applies the EXIF orientation, tesseract only sees the raw pixels otherwise
+  const decoded = await Jimp.read(buffer);
+  const orientation = readExifOrientation(buffer);
+  if (orientation > 1 && enabled.has('exifRotate')) {
+    steps.push({ name: 'exifRotate', detail: `orientation ${orientation}` });
+  }
+  let image = toGray(decoded.bitmap);
+  steps.push({ name: 'grayscale' });
+
+  if (enabled.has('invert')) {
+    const mean = meanLuminance(image);
+    if (mean < DARK_MODE_LUMINANCE) {
+      image = invert(image);
+      steps.push({ name: 'invert', detail: `mean luminance ${Math.round(mean)}` });
+    }
+  }
+
+  if (enabled.has('upscale')) {
+    const scale = Math.min(MAX_UPSCALE, TARGET_LONG_SIDE / Math.max(image.width, image.height));
+    if (scale >= 1.25) {
+      image = resize(image, scale);
+      steps.push({ name: 'upscale', detail: `${scale.toFixed(2)}x` });
+    }
+  }
+
+  if (enabled.has('normalize')) {
+    const [low, high] = percentiles(image, 0.01, 0.99);
+    if (high - low < 250) {
+      image = stretch(image, low, high);
+      steps.push({ name: 'normalize', detail: `${low}-${high}` });
+    }
+  }
+
+  if (enabled.has('osdRotate') && options.detectRotation) {
+    const rotation = await options.detectRotation(await encode(image));
+    if (rotation) {
+      image = rotateQuarter(image, rotation);
+      steps.push({ name: 'osdRotate', detail: `${rotation}°` });
+    }
+  }
+
+  if (enabled.has('deskew')) {
+    const angle = estimateSkew(image);
+    if (Math.abs(angle) >= 0.5) {
+      image = rotate(image, -angle);
+      steps.push({ name: 'deskew', detail: `${angle.toFixed(1)}°` });
+    }
+  }
+
+  if (enabled.has('binarize')) {
+    image = binarize(image);
+    steps.push({ name: 'binarize' });
+  }
+
+  return { image: await encode(image), steps };
+}
+
+/**
+ * Parses a comma separated step list such as "invert,binarize", "none" or "all".
+ */
+export function parsePreprocessingSteps(spec: string | undefined): PreprocessingStepName[] {
+  if (!spec || spec === 'all') return PREPROCESSING_STEPS;
+  if (spec === 'none') return [];
+
+  const steps = spec.split(',').map(step => step.trim()).filter(Boolean);
+  const unknown = steps.find(step => !PREPROCESSING_STEPS.includes(step as PreprocessingStepName));
+  if (unknown) {
+    throw new Error(`Unknown preprocessing step '${unknown}'. Use ${PREPROCESSING_STEPS.join(', ')}`);
+  }
+  return PREPROCESSING_STEPS.filter(step => steps.includes(step));
+}
+
+function toGray(bitmap: { width: number; height: number; data: Buffer }): GrayImage {
+  const { width, height, data } = bitmap;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    const alpha = data[offset + 3] / 255;
+    const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    // Transparent areas become white paper
+    gray[i] = luminance * alpha + 255 * (1 - alpha);
+  }
+  return { width, height, data: gray };
+}
+
+async function encode(image: GrayImage): Promise<Buffer> {
+  const rgba = Buffer.alloc(image.width * image.height * 4);
+  for (let i = 0; i < image.data.length; i++) {
+    const offset = i * 4;
+    rgba[offset] = rgba[offset + 1] = rgba[offset + 2] = image.data[i];
+    rgba[offset + 3] = 255;
+  }
+  return Jimp.fromBitmap({ width: image.width, height: image.height, data: rgba }).getBuffer('image/png');
+}
+
+function meanLuminance(image: GrayImage): number {
+  let sum = 0;
+  for (let i = 0; i < image.data.length; i++) sum += image.data[i];
+  return sum / image.data.length;
+}
+
+function invert(image: GrayImage): GrayImage {
+  return { ...image, data: image.data.map(value => 255 - value) };
+}
+
+// Bilinear resampling
+function resize(image: GrayImage, scale: number): GrayImage {
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(image.height - 1, (y + 0.5) / scale - 0.5);
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, (x + 0.5) / scale - 0.5);
+      data[y * width + x] = sample(image, sourceX, sourceY);
+    }
+  }
+  return { width, height, data };
+}
+
+function percentiles(image: GrayImage, lowFraction: number, highFraction: number): [number, number] {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) histogram[image.data[i]]++;
+
+  const find = (fraction: number) => {
+    const target = image.data.length * fraction;
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= target) return value;
+    }
+    return 255;
+  };
+  return [find(lowFraction), find(highFraction)];
+}
+
+function stretch(image: GrayImage, low: number, high: number): GrayImage {
+  const range = Math.max(1, high - low);
+  return { ...image, data: image.data.map(value => ((value - low) * 255) / range) };
+}
+
+// Clockwise rotation by a multiple of 90 degrees
+function rotateQuarter(image: GrayImage, degrees: number): GrayImage {
+  const turns = (((Math.round(degrees / 90) % 4) + 4) % 4);
+  let current = image;
+  for (let turn = 0; turn < turns; turn++) {
+    const { width, height } = current;
+    const data = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        data[x * height + (height - 1 - y)] = current.data[y * width + x];
+      }
+    }
+    current = { width: height, height: width, data };
+  }
+  return current;
+}
+
+// Rotation about the centre by a small angle, counter-clockwise for positive degrees, new areas white
+function rotate(image: GrayImage, degrees: number): GrayImage {
+  const { width, height } = image;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      const sourceX = cx + dx * cos - dy * sin;
+      const sourceY = cy + dx * sin + dy * cos;
+      data[y * width + x] = sourceX < 0 || sourceY < 0 || sourceX > width - 1 || sourceY > height - 1
+        ? 255
+        : sample(image, sourceX, sourceY);
+    }
+  }
+  return { width, height, data };
+}
+
+function sample(image: GrayImage, x: number, y: number): number {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(image.width - 1, x0 + 1);
+  const y1 = Math.min(image.height - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+  const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Projection profile skew estimate: text lines give the sharpest row histogram of dark
+ * pixels at the right angle. Returns degrees the text is rotated counter-clockwise.
+ */
+function estimateSkew(image: GrayImage): number {
+  // Sampling keeps large photos fast, the estimate only needs the dark pixels' positions
+  const step = Math.max(1, Math.floor(Math.max(image.width, image.height) / 800));
+  const points: Array<[number, number]> = [];
+  for (let y = 0; y < image.height; y += step) {
+    for (let x = 0; x < image.width; x += step) {
+      if (image.data[y * image.width + x] < 128) points.push([x, y]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+    for (const [x, y] of points) {
+      const row = Math.round((y * cos + x * sin) / step);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    }
+    let sumOfSquares = 0;
+    rows.forEach(count => { sumOfSquares += count * count; });
+    return sumOfSquares;
+  };
+
+  // Coarse search, then refine around the best angle
+  let best = 0;
+  let bestScore = score(0);
+  for (let degrees = -MAX_SKEW; degrees <= MAX_SKEW; degrees += 1) {
+    const value = score(degrees);
+    if (value > bestScore) [best, bestScore] = [degrees, value];
+  }
+  const coarse = best;
+  for (let degrees = coarse - 1; degrees <= coarse + 1; degrees += 0.1) {
+    const value = score(degrees);
+    if (value > bestScore) [best, bestScore] = [degrees, value];
+  }
+  return best;
+}
+
+/**
+ * Bradley adaptive thresholding: a pixel is ink when clearly darker than its neighbourhood,
+ * which copes with shadows and uneven lighting in photos.
+ */
+function binarize(image: GrayImage): GrayImage {
+  const { width, height } = image;
+  const radius = Math.max(8, Math.round(Math.max(width, height) / 32));
+  const sensitivity = 0.15;
+
+  // Integral image of the luminance
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += image.data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const area = (bottom - top) * (right - left);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+        - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      data[y * width + x] = image.data[y * width + x] * area < sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// EXIF orientation tag (0x0112) of a JPEG, 1 when missing
+function readExifOrientation(buffer: Buffer): number {
+  if (buffer.length < 4 || buffer.readUInt16BE(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    const marker = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xffe1 && buffer.toString('ascii', offset + 4, offset + 8) === 'Exif') {
+      const tiff = offset + 10;
+      const little = buffer.toString('ascii', tiff, tiff + 2) === 'II';
+      const read16 = (at: number) => little ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at);
+      const read32 = (at: number) => little ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at);
+      const ifd = tiff + read32(tiff + 4);
+      if (ifd + 2 > buffer.length) return 1;
+      const entries = read16(ifd);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > buffer.length) return 1;
+        if (read16(entry) === 0x0112) return read16(entry + 8);
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // Start of scan, no EXIF
+    offset += 2 + length;
+  }
+  return 1;
+}
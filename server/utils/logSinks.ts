@@ -0,0 +1,461 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { createGzip, createGunzip } from 'zlib';
+import { pipeline } from 'stream/promises';
+import { and, desc, eq, gte, inArray, lt, lte, or, type SQL } from 'drizzle-orm';
+import { LOG_LEVELS, logEntries } from '@shared/schema';
+import { db, type Database } from '../db';
+import type { LogEntry, LogLevel } from './logger';
+import { parseCount, parseDate, parseEndDate, queryValue } from './queryParams';
+
+export interface LogQuery {
+  level?: LogLevel; // Minimum level, like getLogs()
+  category?: string;
+  requestId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  cursor?: string; // Opaque value from a previous page's nextCursor
+}
+
+/**
+ * Reads a log query from a query string: level, category, requestId, since, until, limit and
+ * cursor. A cursor that is not one of ours is refused here instead of failing the query.
+ */
+export function parseLogQuery(query: Record<string, unknown>): LogQuery {
+  const parsed: LogQuery = {};
+
+  const level = queryValue(query.level);
+  if (level) {
+    if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+      throw new Error(`Unknown level '${level}'. Use ${LOG_LEVELS.join(', ')}`);
+    }
+    parsed.level = level as LogLevel;
+  }
+
+  const category = queryValue(query.category);
+  if (category) parsed.category = category;
+  const requestId = queryValue(query.requestId);
+  if (requestId) parsed.requestId = requestId;
+
+  const since = queryValue(query.since);
+  if (since) parsed.since = parseDate(since, 'since');
+  const until = queryValue(query.until);
+  if (until) parsed.until = parseEndDate(until, 'until');
+
+  const limit = queryValue(query.limit);
+  if (limit) parsed.limit = parseCount(limit, 'limit', 1);
+
+  const cursor = queryValue(query.cursor);
+  if (cursor) {
+    decodeCursor(cursor);
+    parsed.cursor = cursor;
+  }
+
+  return parsed;
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  nextCursor?: string;
+}
+
+export interface LogSink {
+  readonly name: string;
+  write(entry: LogEntry): void;
+  // Sinks that can answer queries back getLogs() history beyond the memory store
+  query?(query: LogQuery): Promise<LogPage>;
+  // Removes every stored entry, for DELETE /api/logs
+  clear?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Pages are ordered newest first, with the id breaking ties between entries from the same millisecond
+interface CursorPosition {
+  timestamp: string;
+  id: string;
+}
+
+export function encodeCursor(entry: LogEntry): string {
+  return Buffer.from(`${entry.timestamp}|${entry.id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  if (!timestamp || !id || isNaN(Date.parse(timestamp))) {
+    throw new Error('Invalid log cursor');
+  }
+  return { timestamp: new Date(timestamp).toISOString(), id };
+}
+
+export function compareLogEntries(a: LogEntry, b: LogEntry): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+function levelsAtOrAbove(level: LogLevel): LogLevel[] {
+  return LOG_LEVELS.slice(LOG_LEVELS.indexOf(level));
+}
+
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.level && !levelsAtOrAbove(query.level).includes(entry.level)) return false;
+  if (query.category && entry.category !== query.category) return false;
+  if (query.requestId && entry.requestId !== query.requestId) return false;
+
+  const timestamp = new Date(entry.timestamp);
+  if (query.since && timestamp < query.since) return false;
+  if (query.until && timestamp > query.until) return false;
+  return true;
+}
+
+function pageSize(query: LogQuery): number {
+  return Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
+
+// Cut one page out of entries that already match the query and are sorted with compareLogEntries
+export function paginateLogEntries(sorted: LogEntry[], query: LogQuery): LogPage {
+  let entries = sorted;
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor);
+    const boundary = { timestamp: position.timestamp, id: position.id } as LogEntry;
+    entries = entries.filter(entry => compareLogEntries(entry, boundary) > 0);
+  }
+
+  const limit = pageSize(query);
+  const page = entries.slice(0, limit);
+  return {
+    entries: page,
+    nextCursor: entries.length > limit ? encodeCursor(page[page.length - 1]) : undefined
+  };
+}
+
+interface FileLogSinkOptions {
+  directory: string;
+  fileName: string;
+  maxBytes: number;
+  maxAgeMs: number;
+  maxFiles: number; // Rotated archives to keep
+}
+
+/**
+ * Appends entries as JSON lines and rotates the file by size or age.
+ * Rotated files are renamed with a timestamp suffix and gzipped in the background.
+ */
+export class FileLogSink implements LogSink {
+  readonly name = 'file';
+  private options: FileLogSinkOptions;
+  private stream?: fs.WriteStream;
+  private currentSize = 0;
+  private openedAt = 0;
+  private rotating = false;
+  private rotation: Promise<void> = Promise.resolve(); // Latest rotation, including its compression
+  private pending: string[] = [];
+
+  constructor(options: Partial<FileLogSinkOptions> & { directory: string }) {
+    this.options = {
+      directory: options.directory,
+      fileName: options.fileName || 'app.log',
+      maxBytes: options.maxBytes || 10 * 1024 * 1024, // 10MB
+      maxAgeMs: options.maxAgeMs || 24 * 60 * 60 * 1000, // 1 day
+      maxFiles: options.maxFiles || 14
+    };
+
+    fs.mkdirSync(this.options.directory, { recursive: true });
+    this.open();
+  }
+
+  private get currentPath(): string {
+    return path.join(this.options.directory, this.options.fileName);
+  }
+
+  private get rotatedPrefix(): string {
+    return `${path.parse(this.options.fileName).name}-`;
+  }
+
+  write(entry: LogEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+
+    if (this.rotating) {
+      this.pending.push(line);
+      return;
+    }
+
+    if (this.shouldRotate(Buffer.byteLength(line))) {
+      this.pending.push(line);
+      this.rotation = this.rotate();
+      return;
+    }
+
+    this.append(line);
+  }
+
+  async query(query: LogQuery): Promise<LogPage> {
+    let matches: LogEntry[] = [];
+
+    // Files are visited newest first, so once a page is full the older archives can be skipped
+    for (const file of await this.listFiles()) {
+      const entries = await this.readEntries(file);
+      matches = matches.concat(entries.filter(entry => matchesLogQuery(entry, query)));
+      matches.sort(compareLogEntries);
+
+      const page = paginateLogEntries(matches, query);
+      if (page.nextCursor) return page;
+    }
+
+    return paginateLogEntries(matches, query);
+  }
+
+  // Deletes the current file and every archive, entries written meanwhile go to the new file
+  async clear(): Promise<void> {
+    await this.rotation;
+    this.rotating = true;
+    try {
+      await this.close();
+      for (const file of await this.listFiles()) {
+        await fs.promises.unlink(file);
+      }
+    } finally {
+      this.reopen();
+    }
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) return;
+    await new Promise<void>(resolve => stream.end(() => resolve()));
+  }
+
+  private open(): void {
+    const stats = fs.existsSync(this.currentPath) ? fs.statSync(this.currentPath) : undefined;
+    this.currentSize = stats?.size ?? 0;
+    this.openedAt = stats ? (stats.birthtimeMs || stats.mtimeMs) : Date.now();
+
+    this.stream = fs.createWriteStream(this.currentPath, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      // Never route sink failures back through the logger
+      console.error(`Log file write failed: ${error.message}`);
+    });
+  }
+
+  private append(line: string): void {
+    this.stream!.write(line);
+    this.currentSize += Buffer.byteLength(line);
+  }
+
+  private shouldRotate(nextBytes: number): boolean {
+    if (this.currentSize === 0) return false;
+    return this.currentSize + nextBytes > this.options.maxBytes ||
+      Date.now() - this.openedAt > this.options.maxAgeMs;
+  }
+
+  private async rotate(): Promise<void> {
+    this.rotating = true;
+    let rotatedPath: string | undefined;
+
+    try {
+      await this.close();
+      const suffix = new Date().toISOString().replace(/[:.]/g, '-');
+      const { name, ext } = path.parse(this.options.fileName);
+      rotatedPath = path.join(this.options.directory, `${name}-${suffix}${ext}`);
+      await fs.promises.rename(this.currentPath, rotatedPath);
+    } catch (error) {
+      rotatedPath = undefined;
+      console.error(`Log file rotation failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.reopen();
+    }
+
+    if (!rotatedPath) return;
+
+    try {
+      await pipeline(fs.createReadStream(rotatedPath), createGzip(), fs.createWriteStream(`${rotatedPath}.gz`));
+      await fs.promises.unlink(rotatedPath);
+      await this.pruneArchives();
+    } catch (error) {
+      console.error(`Log file compression failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Opens the current file again after a rotation or clear and writes what arrived meanwhile
+  private reopen(): void {
+    this.open();
+    this.rotating = false;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(line => this.append(line));
+  }
+
+  private async pruneArchives(): Promise<void> {
+    const archives = (await this.listFiles()).filter(file => file.endsWith('.gz'));
+    for (const file of archives.slice(this.options.maxFiles)) {
+      await fs.promises.unlink(file);
+    }
+  }
+
+  // Current file first, then rotated files newest to oldest (the timestamp suffix sorts lexically)
+  private async listFiles(): Promise<string[]> {
+    const names = await fs.promises.readdir(this.options.directory);
+    const rotated = names
+      .filter(name => name.startsWith(this.rotatedPrefix))
+      .sort()
+      .reverse()
+      .map(name => path.join(this.options.directory, name));
+
+    return fs.existsSync(this.currentPath) ? [this.currentPath, ...rotated] : rotated;
+  }
+
+  private async readEntries(file: string): Promise<LogEntry[]> {
+    const source = fs.createReadStream(file);
+    const input = file.endsWith('.gz') ? source.pipe(createGunzip()) : source;
+    const entries: LogEntry[] = [];
+
+    for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip lines cut short by a crash mid-write
+      }
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * Persists entries to the log_entries table. Writes are buffered and inserted in batches
+ * so logging never waits on a database round trip.
+ */
+export class DatabaseLogSink implements LogSink {
+  readonly name = 'database';
+  private buffer: LogEntry[] = [];
+  private timer?: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private db: Database,
+    private options: { batchSize: number; flushIntervalMs: number } = { batchSize: 100, flushIntervalMs: 1000 }
+  ) {}
+
+  write(entry: LogEntry): void {
+    this.buffer.push(entry);
+
+    if (this.buffer.length >= this.options.batchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const batch = this.buffer.splice(0);
+    if (batch.length === 0) return this.flushing;
+
+    this.flushing = this.flushing
+      .then(async () => {
+        await this.db.insert(logEntries).values(batch.map(entry => ({
+          id: entry.id,
+          timestamp: new Date(entry.timestamp),
+          level: entry.level,
+          category: entry.category,
+          message: entry.message,
+          metadata: entry.metadata ?? null,
+          duration: entry.duration ?? null,
+          requestId: entry.requestId ?? null,
+          userId: entry.userId ?? null
+        })));
+      })
+      .catch(error => {
+        console.error(`Failed to persist ${batch.length} log entries: ${error instanceof Error ? error.message : error}`);
+      });
+
+    return this.flushing;
+  }
+
+  async query(query: LogQuery): Promise<LogPage> {
+    // Include anything still waiting in the buffer
+    await this.flush();
+
+    const conditions: SQL[] = [];
+    if (query.level) conditions.push(inArray(logEntries.level, levelsAtOrAbove(query.level)));
+    if (query.category) conditions.push(eq(logEntries.category, query.category));
+    if (query.requestId) conditions.push(eq(logEntries.requestId, query.requestId));
+    if (query.since) conditions.push(gte(logEntries.timestamp, query.since));
+    if (query.until) conditions.push(lte(logEntries.timestamp, query.until));
+    if (query.cursor) {
+      const position = decodeCursor(query.cursor);
+      const timestamp = new Date(position.timestamp);
+      conditions.push(or(
+        lt(logEntries.timestamp, timestamp),
+        and(eq(logEntries.timestamp, timestamp), lt(logEntries.id, position.id))
+      )!);
+    }
+
+    const limit = pageSize(query);
+    const rows = await this.db
+      .select()
+      .from(logEntries)
+      .where(and(...conditions))
+      .orderBy(desc(logEntries.timestamp), desc(logEntries.id))
+      .limit(limit + 1);
+
+    const entries: LogEntry[] = rows.slice(0, limit).map(row => ({
+      id: row.id,
+      timestamp: row.timestamp.toISOString(),
+      level: row.level as LogLevel,
+      category: row.category,
+      message: row.message,
+      metadata: (row.metadata as Record<string, any> | null) ?? undefined,
+      duration: row.duration ?? undefined,
+      requestId: row.requestId ?? undefined,
+      userId: row.userId ?? undefined
+    }));
+
+    return {
+      entries,
+      nextCursor: rows.length > limit ? encodeCursor(entries[entries.length - 1]) : undefined
+    };
+  }
+
+  // Entries still in the buffer were logged before the clear, so they are dropped too
+  async clear(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.buffer = [];
+    await this.flushing;
+    await this.db.delete(logEntries);
+  }
+
+  close(): Promise<void> {
+    return this.flush();
+  }
+}
+
+// Sinks enabled through the environment; the database sink comes first so it answers queries
+export function createSinksFromEnv(env: NodeJS.ProcessEnv = process.env): LogSink[] {
+  const sinks: LogSink[] = [];
+
+  if (env.LOG_TO_DATABASE === 'true' && db) {
+    sinks.push(new DatabaseLogSink(db));
+  }
+
+  if (env.LOG_DIR) {
+    sinks.push(new FileLogSink({
+      directory: env.LOG_DIR,
+      maxBytes: env.LOG_FILE_MAX_SIZE_MB ? parseFloat(env.LOG_FILE_MAX_SIZE_MB) * 1024 * 1024 : undefined,
+      maxAgeMs: env.LOG_FILE_MAX_AGE_HOURS ? parseFloat(env.LOG_FILE_MAX_AGE_HOURS) * 60 * 60 * 1000 : undefined,
+      maxFiles: env.LOG_FILE_MAX_FILES ? parseInt(env.LOG_FILE_MAX_FILES, 10) : undefined
+    }));
+  }
+
+  return sinks;
+}
@@ -1,19 +1,15 @@
 import { randomUUID } from 'crypto';
 import { performance } from 'perf_hooks';
-
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
-
-interface LogEntry {
-  id: string;
-  timestamp: string;
-  level: LogLevel;
-  message: string;
-  category: string;
-  metadata?: Record<string, any>;
-  duration?: number;
-  requestId?: string;
-  userId?: string;
-}
+import {
+  createSinksFromEnv,
+  compareLogEntries,
+  matchesLogQuery,
+  paginateLogEntries,
+  type LogPage,
+  type LogQuery,
+  type LogSink
+} from './logSinks';
+import type { LogEntry, LogLevel } from '@shared/schema';
 
 interface LoggerOptions {
   level: LogLevel;
@@ -21,12 +17,14 @@ interface LoggerOptions {
   enableMemoryStore: boolean;
   maxMemoryEntries: number;
   categories: string[];
+  sinks: LogSink[];
 }
 
 class Logger {
   private options: LoggerOptions;
   private memoryStore: LogEntry[] = [];
   private activeRequests: Map<string, { startTime: number; metadata: Record<string, any> }> = new Map();
+  private subscribers: Set<(entry: LogEntry) => void> = new Set();
   
   private readonly LOG_LEVELS = {
     debug: 0,
@@ -41,10 +39,15 @@ class Logger {
       enableConsole: options.enableConsole !== false,
       enableMemoryStore: options.enableMemoryStore !== false,
       maxMemoryEntries: options.maxMemoryEntries || 1000,
-      categories: options.categories || ['upload', 'processing', 'validation', 'system', 'error']
+      categories: options.categories || ['upload', 'processing', 'validation', 'system', 'error'],
+      sinks: options.sinks || []
     };
   }
 
+  addSink(sink: LogSink): void {
+    this.options.sinks.push(sink);
+  }
+
   private shouldLog(level: LogLevel): boolean {
     return this.LOG_LEVELS[level] >= this.LOG_LEVELS[this.options.level];
   }
@@ -103,6 +106,31 @@ class Logger {
         this.memoryStore = this.memoryStore.slice(-this.options.maxMemoryEntries);
       }
     }
+
+    // Additional sinks
+    for (const sink of this.options.sinks) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        console.error(`Log sink '${sink.name}' failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Live subscribers (log tail)
+    this.subscribers.forEach(subscriber => {
+      try {
+        subscriber(entry);
+      } catch (error) {
+        console.error(`Log subscriber failed: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  subscribe(listener: (entry: LogEntry) => void): () => void {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
   }
 
   private formatConsoleMessage(entry: LogEntry): string {
@@ -162,6 +190,16 @@ class Logger {
     this.activeRequests.delete(requestId);
   }
 
+  failRequest(requestId: string, error: string): void {
+    const request = this.activeRequests.get(requestId);
+    const duration = request ? performance.now() - request.startTime : undefined;
+    const metadata = { ...request?.metadata, error, duration };
+
+    const entry = this.createLogEntry('error', 'Request failed', 'upload', metadata, requestId, undefined, duration);
+    this.writeLog(entry);
+    this.activeRequests.delete(requestId);
+  }
+
   // File processing specific methods
   logFileUpload(requestId: string, fileName: string, fileSize: number, mimeType: string): void {
     this.info(`File uploaded: ${fileName}`, 'upload', {
@@ -233,6 +271,7 @@ class Logger {
     requestId?: string;
     limit?: number;
     since?: Date;
+    until?: Date;
   } = {}): LogEntry[] {
     let logs = [...this.memoryStore];
 
@@ -252,6 +291,10 @@ class Logger {
       logs = logs.filter(log => new Date(log.timestamp) >= options.since!);
     }
 
+    if (options.until) {
+      logs = logs.filter(log => new Date(log.timestamp) <= options.until!);
+    }
+
     // Sort by timestamp (newest first)
     logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
@@ -262,6 +305,23 @@ class Logger {
     return logs;
   }
 
+  // Paged query against the first persistent sink, or the memory store when none is configured
+  async queryLogs(query: LogQuery = {}): Promise<LogPage> {
+    const persistentSink = this.options.sinks.find(sink => sink.query);
+    if (persistentSink) {
+      return persistentSink.query!(query);
+    }
+
+    const logs = this.memoryStore
+      .filter(log => matchesLogQuery(log, query))
+      .sort(compareLogEntries);
+    return paginateLogEntries(logs, query);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.options.sinks.map(sink => sink.close?.()));
+  }
+
   getRequestLogs(requestId: string): LogEntry[] {
     return this.getLogs({ requestId });
   }
@@ -302,9 +362,11 @@ class Logger {
     };
   }
 
-  clearLogs(): void {
+  // Empties the memory store and every sink that stores entries, so queries stop returning them
+  async clearLogs(): Promise<void> {
     this.memoryStore = [];
     this.activeRequests.clear();
+    await Promise.all(this.options.sinks.map(sink => sink.clear?.()));
   }
 
   getLogSummary(): {
@@ -341,7 +403,8 @@ export const logger = new Logger({
   level: process.env.LOG_LEVEL as LogLevel || 'info',
   enableConsole: true,
   enableMemoryStore: true,
-  maxMemoryEntries: 2000
+  maxMemoryEntries: 2000,
+  sinks: createSinksFromEnv()
 });
 
 // Export types for use in other modules
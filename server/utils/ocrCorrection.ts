@@ -0,0 +1,122 @@
+import fs from 'fs';
+import wordListPath from 'word-list';
+
+// Characters tesseract confuses with letters, and the letters they are tried as
+const CONFUSABLE_CHARACTERS: Record<string, string[]> = {
+  '0': ['o'],
+  '1': ['l', 'i'],
+  '5': ['s'],
+  '|': ['l', 'i'],
+  '\\': ['l']
+};
+
+// Letter pairs read as a single letter
+const CONFUSABLE_PAIRS: Record<string, string> = {
+  rn: 'm'
+};
+
+// Upper bound on ambiguous spots per word, each one doubles the candidates tried
+const MAX_SUBSTITUTIONS = 8;
+
+// The word list has no one-letter words
+const EXTRA_WORDS = ['a', 'i'];
+
+let dictionary: Set<string> | undefined;
+
+/**
+ * Fixes characters OCR misread inside words, e.g. "he11o" or "rnodern", and only when the
+ * corrected word is in the dictionary. Numbers, URLs, e-mail addresses, @handles and
+ * #hashtags are never changed, nor are words that are already spelled correctly.
+ */
+export function correctOCRText(text: string): string {
+  return text.replace(/\S+/g, correctToken);
+}
+
+function correctToken(token: string): string {
+  if (/^[@#]/.test(token) || isLink(token)) return token;
+
+  // Surrounding punctuation is kept as is, hyphenated words are corrected part by part
+  const [, leading, core, trailing] = token.match(/^([("'\[{]*)(.*?)([)"'\]}.,!?;:]*)$/)!;
+  const corrected = core.split(/([-'’])/).map(part => correctWord(part)).join('');
+  return leading + corrected + trailing;
+}
+
+function isLink(token: string): boolean {
+  return /^(https?:\/\/|www\.)/i.test(token)
+    || token.includes('@')
+    || /^[\w-]+(\.[\w-]+)+(\/\S*)?[.,;:!?)]*$/.test(token); // example.com, example.com/path
+}
+
+function correctWord(word: string): string {
+  // Only words that are mostly letters; prices, dates, counts and codes stay untouched
+  if (!/^[A-Za-z015|\\]+$/.test(word)) return word;
+  const letters = word.replace(/[^A-Za-z]/g, '').length;
+  if (letters < 2 || letters <= word.length - letters) return word;
+
+  const words = getDictionary();
+  if (words.has(word.toLowerCase())) return word;
+
+  const spots = findSubstitutionSpots(word);
+  if (spots.length === 0 || spots.length > MAX_SUBSTITUTIONS) return word;
+
+  const uppercase = word.replace(/[^A-Za-z]/g, '') === word.replace(/[^A-Za-z]/g, '').toUpperCase();
+  for (const candidate of candidates(word, spots)) {
+    if (words.has(candidate.toLowerCase())) {
+      return uppercase ? candidate.toUpperCase() : candidate;
+    }
+  }
+  return word;
+}
+
+interface SubstitutionSpot {
+  index: number;
+  length: number;
+  replacements: string[];
+}
+
+function findSubstitutionSpots(word: string): SubstitutionSpot[] {
+  const spots: SubstitutionSpot[] = [];
+  for (let index = 0; index < word.length; index++) {
+    const pair = CONFUSABLE_PAIRS[word.slice(index, index + 2)];
+    if (pair) {
+      spots.push({ index, length: 2, replacements: [pair] });
+      index++;
+      continue;
+    }
+    const replacements = CONFUSABLE_CHARACTERS[word[index]];
+    if (replacements) spots.push({ index, length: 1, replacements });
+  }
+  return spots;
+}
+
+// Candidate spellings, fewest substitutions first. Spots that are digits or symbols must
+// always be replaced, letter pairs may also stay as they are.
+function candidates(word: string, spots: SubstitutionSpot[]): string[] {
+  let variants: Array<{ text: string; changes: number }> = [{ text: '', changes: 0 }];
+  let position = 0;
+
+  for (const spot of spots) {
+    const before = word.slice(position, spot.index);
+    const original = word.slice(spot.index, spot.index + spot.length);
+    const options = /[A-Za-z]/.test(original) ? [original, ...spot.replacements] : spot.replacements;
+    variants = variants.flatMap(variant => options.map(option => ({
+      text: variant.text + before + option,
+      changes: variant.changes + (option === original ? 0 : 1)
+    })));
+    position = spot.index + spot.length;
+  }
+
+  return variants
+    .map(variant => ({ ...variant, text: variant.text + word.slice(position) }))
+    .sort((a, b) => a.changes - b.changes)
+    .map(variant => variant.text);
+}
+
+// Loaded on first use, the list has about 275k words
+function getDictionary(): Set<string> {
+  if (!dictionary) {
+    const words = fs.readFileSync(wordListPath, 'utf8').split('\n').filter(Boolean);
+    dictionary = new Set([...words, ...EXTRA_WORDS]);
+  }
+  return dictionary;
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+
+export const DEFAULT_OCR_LANGUAGES = 'eng';
+export const AUTO_OCR_LANGUAGES = 'auto';
+
+// Traineddata needed for orientation and script detection in auto mode
+export const OSD_LANGUAGE = 'osd';
+
+// Tesseract script names reported by OSD, mapped to the languages tried for them. Latin is
+// ambiguous, so every installed language of the list is loaded together.
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: ['eng', 'spa', 'fra', 'deu', 'ita', 'por', 'nld'],
+  Devanagari: ['hin', 'mar', 'nep'],
+  Arabic: ['ara', 'fas', 'urd'],
+  Cyrillic: ['rus', 'ukr'],
+  Greek: ['ell'],
+  Hebrew: ['heb'],
+  Bengali: ['ben'],
+  Tamil: ['tam'],
+  Telugu: ['tel'],
+  Gujarati: ['guj'],
+  Thai: ['tha'],
+  Han: ['chi_sim', 'chi_tra'],
+  Japanese: ['jpn'],
+  Katakana: ['jpn'],
+  Hiragana: ['jpn'],
+  Hangul: ['kor']
+};
+
+export interface LanguageDataOptions {
+  langPath?: string;
+  gzip?: boolean;
+  cacheMethod?: 'none';
+}
+
+/**
+ * Where tesseract loads traineddata from. With OCR_LANG_PATH set, files are read from that
+ * directory and never downloaded; otherwise tesseract.js fetches them from its CDN.
+ */
+export function getLanguageDataOptions(): LanguageDataOptions {
+  const langPath = getLanguageDirectory();
+  if (!langPath) return {};
+
+  // tesseract.js expects either all gzipped or all plain files
+  const files = fs.readdirSync(langPath);
+  return {
+    langPath,
+    gzip: files.some(file => file.endsWith('.traineddata.gz')),
+    cacheMethod: 'none' // Files are already local, no copy in the working directory
+  };
+}
+
+/**
+ * Languages with traineddata in OCR_LANG_PATH, undefined when tesseract downloads them on demand.
+ */
+export function getInstalledLanguages(): string[] | undefined {
+  const langPath = getLanguageDirectory();
+  if (!langPath) return undefined;
+
+  return fs.readdirSync(langPath)
+    .map(file => file.match(/^(\w+)\.traineddata(?:\.gz)?$/)?.[1])
+    .filter((lang): lang is string => !!lang && lang !== OSD_LANGUAGE)
+    .sort();
+}
+
+/**
+ * Validates a language selection such as "eng+spa+hin" or "auto" and normalises it.
+ */
+export function parseLanguages(spec: string): string {
+  const normalized = spec.trim().toLowerCase().replace(/[\s,]+/g, '+');
+  if (normalized === AUTO_OCR_LANGUAGES) {
+    if (!canDetectScript()) {
+      throw new Error(`Automatic language detection needs ${OSD_LANGUAGE}.traineddata in OCR_LANG_PATH`);
+    }
+    return normalized;
+  }
+
+  const languages = Array.from(new Set(normalized.split('+').filter(Boolean)));
+  if (languages.length === 0) {
+    throw new Error('No OCR language given');
+  }
+  for (const language of languages) {
+    if (!/^[a-z]{3}(?:_[a-z]+)?$/.test(language)) {
+      throw new Error(`Invalid OCR language '${language}'. Use tesseract codes like eng+spa+hin`);
+    }
+    if (!isInstalled(language)) {
+      throw new Error(`OCR language '${language}' is not installed`);
+    }
+  }
+  return languages.join('+');
+}
+
+/**
+ * Languages to recognize a detected script with, undefined when none is installed.
+ */
+export function languagesForScript(script: string | null): string | undefined {
+  const candidates = (script && SCRIPT_LANGUAGES[script]) || [];
+  const installed = getInstalledLanguages();
+  const available = installed ? candidates.filter(lang => installed.includes(lang)) : candidates.slice(0, 1);
+  return available.length > 0 ? available.join('+') : undefined;
+}
+
+export function canDetectScript(): boolean {
+  return isInstalled(OSD_LANGUAGE);
+}
+
+// The whitelist and ASCII cleanup only make sense for English-only recognition
+export function isEnglishOnly(languages: string): boolean {
+  return languages === 'eng';
+}
+
+function getLanguageDirectory(): string | undefined {
+  return process.env.OCR_LANG_PATH ? path.resolve(process.env.OCR_LANG_PATH) : undefined;
+}
+
+function isInstalled(language: string): boolean {
+  const langPath = getLanguageDirectory();
+  if (!langPath) return true; // Downloaded on demand
+  return ['.traineddata', '.traineddata.gz'].some(ext => fs.existsSync(path.join(langPath, language + ext)));
+}
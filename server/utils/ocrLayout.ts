@@ -0,0 +1,52 @@
+import type { Block } from 'tesseract.js';
+import type { OCRWord } from '@shared/schema';
+
+/**
+ * Flattens tesseract's block, paragraph, line and word tree into words that remember
+ * which paragraph and line they belong to.
+ */
+export function extractWords(blocks: Block[] | null): OCRWord[] {
+  const words: OCRWord[] = [];
+  let paragraphIndex = 0;
+  let lineIndex = 0;
+
+  for (const block of blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const text = word.text.trim();
+          if (!text) continue;
+          words.push({
+            text,
+            confidence: Math.round(word.confidence),
+            bbox: { x0: word.bbox.x0, y0: word.bbox.y0, x1: word.bbox.x1, y1: word.bbox.y1 },
+            paragraph: paragraphIndex,
+            line: lineIndex
+          });
+        }
+        lineIndex++;
+      }
+      paragraphIndex++;
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Rebuilds plain text from words, lines on separate lines and a blank line between paragraphs.
+ */
+export function wordsToText(words: OCRWord[]): string {
+  let text = '';
+  let previous: OCRWord | undefined;
+
+  for (const word of words) {
+    if (previous) {
+      text += word.paragraph !== previous.paragraph ? '\n\n' : word.line !== previous.line ? '\n' : ' ';
+    }
+    text += word.text;
+    previous = word;
+  }
+
+  return text;
+}
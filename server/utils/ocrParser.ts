@@ -1,47 +1,113 @@
-import { createWorker } from 'tesseract.js';
+import { logger } from './logger';
+import { ocrWorkerPool, OCRPoolSaturatedError } from './ocrWorkerPool';
+import { AUTO_OCR_LANGUAGES, DEFAULT_OCR_LANGUAGES, canDetectScript, isEnglishOnly, languagesForScript } from './ocrLanguages';
+import { extractWords, wordsToText } from './ocrLayout';
+import { correctOCRText } from './ocrCorrection';
+import { parsePreprocessingSteps, preprocessImage } from './imagePreprocessor';
+import type { OCRPreprocessing, OCRScriptDetection, OCRWord } from '@shared/schema';
 
-export async function performOCR(buffer: Buffer): Promise<string> {
-  let worker;
-  
+// Preprocessing steps to try, and the first pass confidence below which they are tried
+const PREPROCESSING_STEPS = parsePreprocessingSteps(process.env.OCR_PREPROCESS);
+const PREPROCESS_BELOW_CONFIDENCE = Number(process.env.OCR_PREPROCESS_BELOW) || 70;
+
+// OSD orientation confidence needed before an image is turned around
+const MIN_ORIENTATION_CONFIDENCE = 1;
+
+interface OCROptions {
+  requestId?: string;
+  languages?: string; // Validated selection such as eng+spa, or auto to detect the script first
+  onProgress?: (progress: number) => void; // Recognition progress from 0 to 1
+}
+
+export interface OCRResult {
+  text: string;
+  confidence: number; // Mean word confidence from 0 to 100
+  languages: string;
+  script?: OCRScriptDetection; // Only in automatic mode
+  words: OCRWord[];
+  preprocessing?: OCRPreprocessing; // Only when the first pass was below OCR_PREPROCESS_BELOW
+  image?: Buffer; // Preprocessed PNG the words were found on, when it beat the original
+}
+
+export async function performOCR(buffer: Buffer, options: OCROptions = {}): Promise<OCRResult> {
   try {
     if (!buffer || buffer.length === 0) {
       throw new Error('Empty image buffer provided');
     }
 
-    // Create Tesseract worker
-    worker = await createWorker();
-    
-    // Initialize with English language
-    await (worker as any).loadLanguage('eng');
-    await (worker as any).initialize('eng');
-    
-    // Configure for better accuracy
-    await (worker as any).setParameters({
-      tessedit_page_seg_mode: '1', // Automatic page segmentation with OSD
-      tessedit_ocr_engine_mode: '2', // LSTM only
-      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,!?;:()-"\'\n',
-    });
+    let languages = options.languages || DEFAULT_OCR_LANGUAGES;
+    let script: OCRScriptDetection | undefined;
+    if (languages === AUTO_OCR_LANGUAGES) {
+      const detection = await ocrWorkerPool.detect(buffer, { requestId: options.requestId });
+      script = {
+        script: detection.script,
+        confidence: detection.script_confidence,
+        orientation: detection.orientation_degrees
+      };
+      // Fall back to English when the script is unknown or none of its languages is installed
+      languages = languagesForScript(detection.script) ?? DEFAULT_OCR_LANGUAGES;
+      logger.debug('OCR script detected', 'processing', { ...script, languages }, options.requestId);
+    }
+
+    // Perform OCR on a shared, already initialised worker
+    let recognized = await ocrWorkerPool.recognize(buffer, { ...options, languages });
+    logger.debug('OCR recognition finished', 'processing', { confidence: recognized.confidence, languages }, options.requestId);
 
-    // Perform OCR
-    const { data: { text, confidence } } = await (worker as any).recognize(buffer);
+    // Retry poor results on a cleaned up image and keep whichever pass is more confident
+    let preprocessing: OCRPreprocessing | undefined;
+    let preprocessedImage: Buffer | undefined;
+    if (PREPROCESSING_STEPS.length > 0 && recognized.confidence < PREPROCESS_BELOW_CONFIDENCE) {
+      const confidenceBefore = recognized.confidence;
+      try {
+        const { image, steps } = await preprocessImage(buffer, {
+          steps: PREPROCESSING_STEPS,
+          detectRotation: canDetectScript() ? (png) => detectRotation(png, options.requestId) : undefined
+        });
+        const retried = await ocrWorkerPool.recognize(image, { ...options, languages });
+        const improved = retried.confidence > confidenceBefore;
+        preprocessing = {
+          steps,
+          confidenceBefore,
+          confidenceAfter: retried.confidence,
+          used: improved ? 'preprocessed' : 'original'
+        };
+        if (improved) {
+          recognized = retried;
+          preprocessedImage = image;
+        }
+      } catch (error) {
+        // The first pass still stands, preprocessing is only an attempt to improve it
+        preprocessing = {
+          steps: [],
+          confidenceBefore,
+          used: 'original',
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+      logger.debug('OCR preprocessing finished', 'processing', preprocessing, options.requestId);
+    }
+    const { text, confidence, blocks } = recognized;
     
     // Check if confidence is too low
     if (confidence < 30) {
       throw new Error(`Image quality too low for accurate text recognition (confidence: ${confidence.toFixed(1)}%). Please upload a higher resolution image with clearer text.`);
     }
 
-    // Clean up the extracted text
-    const cleanedText = text
-      .replace(/\r\n/g, '\n')  // Normalize line endings
-      .replace(/\n{3,}/g, '\n\n')  // Remove excessive newlines
-      .replace(/[^\w\s.,!?;:()'""\-\n]/g, '') // Remove unusual characters
-      .trim();
+    const cleanedText = cleanOCROutput(text, languages);
 
     if (!cleanedText || cleanedText.length < 3) {
       throw new Error('No readable text found in the image. Please ensure the image contains clear, readable text.');
     }
 
-    return cleanedText;
+    return {
+      text: cleanedText,
+      confidence,
+      languages,
+      ...(script && { script }),
+      words: extractWords(blocks),
+      ...(preprocessing && { preprocessing }),
+      ...(preprocessedImage && { image: preprocessedImage })
+    };
 
   } catch (error) {
     if (error instanceof Error) {
@@ -49,16 +115,45 @@ export async function performOCR(buffer: Buffer): Promise<string> {
       if (error.message.includes('Invalid image')) {
         throw new Error('Invalid image format. Please upload a PNG, JPG, or JPEG file.');
       }
-      if (error.message.includes('confidence')) {
-        throw error; // Re-throw confidence errors as-is
+      if (error.message.includes('confidence') || error instanceof OCRPoolSaturatedError) {
+        throw error; // Re-throw confidence and capacity errors as-is
       }
       throw new Error(`OCR processing failed: ${error.message}`);
     }
     throw new Error('Unknown error occurred during OCR processing');
-  } finally {
-    // Clean up worker
-    if (worker) {
-      await (worker as any).terminate();
-    }
   }
 }
+
+/**
+ * Normalizes line breaks and, for English, drops characters outside the recognition whitelist.
+ * What correctOCRText leaves alone, @handles, #hashtags, URLs, prices and percentages, survives.
+ */
+export function cleanOCROutput(text: string, languages: string): string {
+  let cleaned = text
+    .replace(/\r\n/g, '\n')  // Normalize line endings
+    .replace(/\n{3,}/g, '\n\n');  // Remove excessive newlines
+  if (isEnglishOnly(languages)) {
+    cleaned = cleaned.replace(/[^\w\s.,!?;:()'"\-\n@#\/$%&+=]/g, ''); // Remove unusual characters
+  }
+  return cleaned.trim();
+}
+
+/**
+ * Text of OCR words cleaned and corrected the way an upload cleans recognized text, word by
+ * word so words a user edited are kept exactly as typed.
+ */
+export function ocrWordsToText(words: OCRWord[], languages: string): string {
+  const cleaned = words.flatMap(word => {
+    if (word.edited) return [word];
+    const text = correctOCRText(cleanOCROutput(word.text, languages));
+    return text ? [{ ...word, text }] : [];
+  });
+  return wordsToText(cleaned);
+}
+
+// Clockwise rotation that makes the text upright according to OSD, null when unsure
+async function detectRotation(image: Buffer, requestId?: string): Promise<number | null> {
+  const { orientation_degrees, orientation_confidence } = await ocrWorkerPool.detect(image, { requestId });
+  if (!orientation_degrees || (orientation_confidence ?? 0) < MIN_ORIENTATION_CONFIDENCE) return null;
+  return orientation_degrees;
+}
@@ -0,0 +1,368 @@
+import { EventEmitter } from 'events';
+import { createWorker, OEM, PSM, type DetectResult, type RecognizeResult, type Worker } from 'tesseract.js';
+import { logger } from './logger';
+import { DEFAULT_OCR_LANGUAGES, OSD_LANGUAGE, getLanguageDataOptions, isEnglishOnly } from './ocrLanguages';
+
+interface OCRWorkerPoolOptions {
+  size: number; // Number of tesseract workers
+  maxQueue: number; // Jobs allowed to wait for a free worker before new ones are rejected
+  shutdownTimeout: number; // How long shutdown waits for running jobs, in ms
+  jobTimeout: number; // A job running longer fails and its worker is replaced, in ms
+}
+
+export interface OCRJobOptions {
+  requestId?: string;
+  languages?: string; // Tesseract languages such as eng+spa, English by default
+  onProgress?: (progress: number) => void; // Recognition progress from 0 to 1
+}
+
+export type OCRPoolStatus = 'idle' | 'starting' | 'ready' | 'stopping' | 'stopped';
+
+export interface OCRPoolMetrics {
+  status: OCRPoolStatus;
+  size: number;
+  workers: number;
+  busy: number;
+  queued: number;
+  maxQueue: number;
+  completed: number;
+  failed: number;
+  rejected: number;
+  averageWaitTime: number; // ms a job waited for a worker
+  averageRecognitionTime: number; // ms a worker spent on a job
+}
+
+type PoolJobKind = 'recognize' | 'detect';
+
+interface PoolJob extends OCRJobOptions {
+  kind: PoolJobKind;
+  enqueuedAt: number;
+  execute: (worker: Worker) => Promise<() => void>; // Runs the job, the returned callback resolves the caller
+  reject: (error: Error) => void; // Fails the caller
+}
+
+interface PoolWorker {
+  worker: Worker;
+  languages?: string; // Languages the worker is initialised with, unset after a failed switch
+  job?: PoolJob; // Job currently running on the worker, receives its progress
+  failed?: boolean; // Reported an error or hung, replaced once its job has settled
+}
+
+export class OCRPoolSaturatedError extends Error {
+  readonly retryAfter = 30; // Seconds, sent as Retry-After
+
+  constructor(maxQueue: number) {
+    super(`OCR is at capacity with ${maxQueue} image(s) waiting. Please retry shortly.`);
+    this.name = 'OCRPoolSaturatedError';
+  }
+}
+
+/**
+ * Long-lived pool of initialised tesseract workers shared by all requests. Workers start
+ * on the first job (or an explicit start) and jobs wait in a FIFO queue for a free worker.
+ * A worker that fails after startup is replaced, and when none can be started the pool
+ * fails the waiting jobs and starts again on the next one.
+ */
+export class OCRWorkerPool extends EventEmitter {
+  private options: OCRWorkerPoolOptions;
+  private starting?: Promise<void>;
+  private workers: PoolWorker[] = [];
+  private queue: PoolJob[] = [];
+  private replacing = 0; // Workers being started in place of failed ones
+  private status: OCRPoolStatus = 'idle';
+  private stats = { completed: 0, failed: 0, rejected: 0, totalWaitTime: 0, totalRecognitionTime: 0 };
+
+  constructor(options: OCRWorkerPoolOptions) {
+    super();
+    this.options = options;
+  }
+
+  async recognize(image: Buffer, options: OCRJobOptions = {}): Promise<RecognizeResult['data']> {
+    // Blocks carry the words with their boxes and confidence
+    const { data } = await this.submit('recognize', options, worker => worker.recognize(image, {}, { text: true, blocks: true }));
+    return data;
+  }
+
+  /**
+   * Orientation and script detection, runs on the osd traineddata with the legacy engine.
+   */
+  async detect(image: Buffer, options: Pick<OCRJobOptions, 'requestId'> = {}): Promise<DetectResult['data']> {
+    const { data } = await this.submit('detect', options, worker => worker.detect(image));
+    return data;
+  }
+
+  private submit<T>(kind: PoolJobKind, options: OCRJobOptions, task: (worker: Worker) => Promise<T>): Promise<T> {
+    if (this.status === 'stopping' || this.status === 'stopped') {
+      return Promise.reject(new Error('OCR is unavailable while the server shuts down'));
+    }
+    if (this.isSaturated()) {
+      this.stats.rejected++;
+      logger.warn('OCR job rejected, pool queue is full', 'processing', this.getMetrics(), options.requestId);
+      return Promise.reject(new OCRPoolSaturatedError(this.options.maxQueue));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        ...options,
+        kind,
+        enqueuedAt: Date.now(),
+        execute: async worker => {
+          const result = await task(worker);
+          return () => resolve(result);
+        },
+        reject
+      });
+      // Jobs waiting for the workers fail with the startup error
+      this.start().then(() => this.dispatch(), error => this.failQueued(error));
+    });
+  }
+
+  /**
+   * Starts the workers once, concurrent callers share the same startup. A failed startup
+   * is retried by the next job.
+   */
+  start(): Promise<void> {
+    if (this.status === 'ready') return Promise.resolve();
+    if (!this.starting) {
+      this.status = 'starting';
+      this.starting = this.startWorkers().finally(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  // Every worker busy and the queue full, jobs waiting for startup count as queued
+  isSaturated(): boolean {
+    return this.queue.length + this.busyWorkers() >= this.options.size + this.options.maxQueue;
+  }
+
+  getMetrics(): OCRPoolMetrics {
+    const { completed, failed, rejected, totalWaitTime, totalRecognitionTime } = this.stats;
+    const finished = completed + failed;
+    return {
+      status: this.status,
+      size: this.options.size,
+      workers: this.workers.length,
+      busy: this.busyWorkers(),
+      queued: this.queue.length,
+      maxQueue: this.options.maxQueue,
+      completed,
+      failed,
+      rejected,
+      averageWaitTime: finished > 0 ? Math.round(totalWaitTime / finished) : 0,
+      averageRecognitionTime: finished > 0 ? Math.round(totalRecognitionTime / finished) : 0
+    };
+  }
+
+  /**
+   * Stops accepting jobs, waits for queued and running ones up to the shutdown timeout,
+   * then terminates the workers and fails whatever is still queued.
+   */
+  async shutdown(): Promise<void> {
+    if (this.status === 'stopped') return;
+    this.status = 'stopping';
+
+    const pending = this.queue.length + this.busyWorkers();
+    if (pending > 0) {
+      logger.info(`Waiting for ${pending} OCR job(s) before shutdown`, 'system');
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, this.options.shutdownTimeout);
+        this.once('idle', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+
+    await this.starting?.catch(() => undefined);
+    await Promise.allSettled(this.workers.map(({ worker }) => worker.terminate()));
+    this.workers = [];
+    this.failQueued(new Error('OCR is unavailable while the server shuts down'));
+    this.status = 'stopped';
+    logger.info('OCR worker pool stopped', 'system', this.getMetrics());
+  }
+
+  private async startWorkers(): Promise<void> {
+    const startedAt = Date.now();
+    const results = await Promise.allSettled(
+      Array.from({ length: this.options.size }, () => this.startWorker())
+    );
+
+    const started = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      await Promise.allSettled(started.map(({ worker }) => worker.terminate()));
+      this.status = 'idle';
+      logger.error('OCR worker pool failed to start', 'system', { error: String(failure.reason) });
+      throw failure.reason instanceof Error ? failure.reason : new Error(String(failure.reason));
+    }
+
+    this.workers = started;
+    if (this.status === 'starting') this.status = 'ready';
+    logger.info(`OCR worker pool started with ${started.length} worker(s)`, 'system', {
+      duration: Date.now() - startedAt
+    });
+  }
+
+  private async startWorker(): Promise<PoolWorker> {
+    const pooled: Partial<PoolWorker> = {};
+
+    // Without an error handler tesseract.js rethrows worker errors outside the returned
+    // promise, and a failed language load never settles it, so the handler rejects instead.
+    // It runs for every error the worker reports, after startup that marks it for replacement
+    let rejectWorker: (error: Error) => void = () => {};
+    const workerFailed = new Promise<never>((_, reject) => { rejectWorker = reject; });
+
+    // Initialized with English and the LSTM-only engine. The legacy core is loaded as well,
+    // script detection cannot run without it
+    const worker = await Promise.race([
+      createWorker(DEFAULT_OCR_LANGUAGES, OEM.LSTM_ONLY, {
+        ...getLanguageDataOptions(),
+        legacyCore: true,
+        logger: (message) => {
+          if (message.status === 'recognizing text') {
+            pooled.job?.onProgress?.(message.progress);
+          }
+        },
+        errorHandler: (error) => {
+          rejectWorker(new Error(String(error)));
+          pooled.failed = true;
+        }
+      }),
+      workerFailed
+    ]);
+    await this.configure(worker, DEFAULT_OCR_LANGUAGES);
+
+    pooled.worker = worker;
+    pooled.languages = DEFAULT_OCR_LANGUAGES;
+    return pooled as PoolWorker;
+  }
+
+  private busyWorkers(): number {
+    return this.workers.filter(pooled => pooled.job).length;
+  }
+
+  // Hands queued jobs to free workers in the order they arrived
+  private dispatch(): void {
+    for (const pooled of this.workers) {
+      if (this.queue.length === 0) return;
+      if (!pooled.job && !pooled.failed) {
+        void this.run(pooled, this.queue.shift()!);
+      }
+    }
+  }
+
+  private failQueued(error: unknown): void {
+    const jobs = this.queue.splice(0);
+    for (const job of jobs) {
+      this.stats.failed++;
+      job.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async run(pooled: PoolWorker, job: PoolJob): Promise<void> {
+    const startedAt = Date.now();
+    this.stats.totalWaitTime += startedAt - job.enqueuedAt;
+    pooled.job = job;
+    let timer: NodeJS.Timeout | undefined;
+    // The caller is settled last, so the metrics it might read already count its job
+    let settle: () => void;
+    try {
+      settle = await Promise.race([
+        this.execute(pooled, job),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            // A worker thread that died never answers, terminating it is the only way to know
+            pooled.failed = true;
+            reject(new Error(`OCR job timed out after ${this.options.jobTimeout}ms`));
+          }, this.options.jobTimeout);
+        })
+      ]).finally(() => clearTimeout(timer));
+      this.stats.completed++;
+    } catch (error) {
+      this.stats.failed++;
+      settle = () => job.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    pooled.job = undefined;
+    this.stats.totalRecognitionTime += Date.now() - startedAt;
+    if (pooled.failed) this.replaceWorker(pooled);
+    this.dispatch();
+    settle();
+    if (this.queue.length === 0 && this.busyWorkers() === 0) this.emit('idle');
+  }
+
+  private async execute(pooled: PoolWorker, job: PoolJob): Promise<() => void> {
+    if (job.kind === 'detect') {
+      // osd only has legacy data, which the default engine picks. tesseract.js ignores
+      // OEM.TESSERACT_ONLY in reinitialize because it is 0
+      await this.useLanguages(pooled, OSD_LANGUAGE, OEM.DEFAULT);
+    } else {
+      await this.useLanguages(pooled, job.languages || DEFAULT_OCR_LANGUAGES, OEM.LSTM_ONLY);
+    }
+    return job.execute(pooled.worker);
+  }
+
+  /**
+   * Terminates a failed worker and starts another in its place. When the last worker is
+   * gone and none can be started, the pool fails the queued jobs and starts over on the next.
+   */
+  private replaceWorker(failed: PoolWorker): void {
+    this.workers = this.workers.filter(pooled => pooled !== failed);
+    failed.worker.terminate().catch(() => undefined);
+    if (this.status !== 'ready') return;
+
+    logger.warn('Replacing a failed OCR worker', 'system', { workers: this.workers.length });
+    this.replacing++;
+    this.startWorker()
+      .then(pooled => {
+        if (this.status !== 'ready') {
+          return pooled.worker.terminate().then(() => undefined);
+        }
+        this.workers.push(pooled);
+        this.dispatch();
+      })
+      .catch(error => {
+        logger.error('OCR worker could not be replaced', 'system', { error: error instanceof Error ? error.message : String(error) });
+        if (this.workers.length === 0 && this.replacing === 1 && this.status === 'ready') {
+          this.status = 'idle';
+          this.failQueued(error);
+        }
+      })
+      .finally(() => {
+        this.replacing--;
+      });
+  }
+
+  // Switches a worker to other languages, which loads missing traineddata on first use
+  private async useLanguages(pooled: PoolWorker, languages: string, oem: OEM): Promise<void> {
+    if (pooled.languages === languages) return;
+
+    pooled.languages = undefined;
+    await pooled.worker.reinitialize(languages, oem);
+    // Reinitialising drops parameters, and the osd data is never used for recognition
+    if (languages !== OSD_LANGUAGE) {
+      await this.configure(pooled.worker, languages);
+    }
+    pooled.languages = languages;
+  }
+
+  private async configure(worker: Worker, languages: string): Promise<void> {
+    await worker.setParameters({
+      tessedit_pageseg_mode: PSM.AUTO, // Automatic page segmentation, script detection runs separately
+      // Restricting characters helps English, but would drop accents and non-Latin scripts. The symbols
+      // of handles, hashtags, URLs, prices and percentages stay in, cleanOCROutput keeps the same ones
+      tessedit_char_whitelist: isEnglishOnly(languages)
+        ? 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,!?;:()-"\'\n@#/$%&+=_'
+        : '',
+    });
+  }
+}
+
+export const ocrWorkerPool = new OCRWorkerPool({
+  size: parseInt(process.env.OCR_POOL_SIZE || '2', 10),
+  maxQueue: parseInt(process.env.OCR_QUEUE_LIMIT || '20', 10),
+  shutdownTimeout: parseInt(process.env.OCR_SHUTDOWN_TIMEOUT_MS || '30000', 10),
+  jobTimeout: parseInt(process.env.OCR_JOB_TIMEOUT_MS || '120000', 10)
+});
@@ -0,0 +1,77 @@
+import { performOCR } from './ocrParser';
+import { rasterizePdfPages } from './pdfRasterizer';
+import { logger } from './logger';
+import type { ExtractedPage } from '@shared/schema';
+
+interface PdfOcrOptions {
+  requestId?: string;
+  languages?: string;
+  reserveOcrPage?: () => Promise<void>; // Called before each page, throws once no more pages may be recognized
+  onProgress?: (progress: number) => void; // Fraction from 0 to 1 across all scanned pages
+}
+
+// Pages with less text than this are treated as scans, short enough to skip page numbers and stamps
+const MIN_TEXT_LAYER_CHARS = 20;
+
+export function needsOCR(page: ExtractedPage): boolean {
+  return page.text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Replaces pages without a usable text layer by OCR of the rendered page. A page that
+ * fails OCR keeps its text layer and records the error instead of failing the document.
+ * When reserveOcrPage refuses a page, it and the pages after it keep their text layer.
+ */
+export async function ocrScannedPages(
+  buffer: Buffer,
+  pages: ExtractedPage[],
+  options: PdfOcrOptions = {}
+): Promise<ExtractedPage[]> {
+  const { requestId } = options;
+  const scanned = pages.filter(needsOCR).map(page => page.pageNumber);
+  if (scanned.length === 0) return pages;
+
+  logger.info(`Running OCR on ${scanned.length} scanned PDF page(s)`, 'processing', { pages: scanned }, requestId);
+
+  const recognized = new Map<number, ExtractedPage>();
+  const markFailed = (pageNumber: number, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Unknown OCR error';
+    const original = pages.find(page => page.pageNumber === pageNumber)!;
+    recognized.set(pageNumber, { ...original, error: message });
+    logger.warn(`OCR failed for PDF page ${pageNumber}`, 'processing', { error: message }, requestId);
+  };
+
+  try {
+    let done = 0;
+    for await (const raster of rasterizePdfPages(buffer, scanned)) {
+      try {
+        await options.reserveOcrPage?.();
+      } catch (error) {
+        for (const pageNumber of scanned.filter(page => !recognized.has(page))) {
+          markFailed(pageNumber, error);
+        }
+        break;
+      }
+
+      try {
+        const { text, confidence, languages } = await performOCR(raster.image, {
+          requestId,
+          languages: options.languages,
+          onProgress: (fraction) => options.onProgress?.((done + fraction) / scanned.length)
+        });
+        recognized.set(raster.pageNumber, { pageNumber: raster.pageNumber, text, method: 'ocr', confidence, languages });
+        logger.debug(`OCR finished for PDF page ${raster.pageNumber}`, 'processing', { confidence }, requestId);
+      } catch (error) {
+        markFailed(raster.pageNumber, error);
+      }
+      options.onProgress?.(++done / scanned.length);
+    }
+  } catch (error) {
+    // Rendering failed, keep whatever was recognized before it
+    for (const pageNumber of scanned.filter(page => !recognized.has(page))) {
+      markFailed(pageNumber, error);
+    }
+  }
+
+  return pages.map(page => recognized.get(page.pageNumber) ?? page);
+}
@@ -1,24 +1,56 @@
 import pdf from 'pdf-parse';
+import { logger } from './logger';
+import type { DocumentInfo, ExtractedPage } from '@shared/schema';
 
-export async function parsePDF(buffer: Buffer): Promise<string> {
+interface PDFParseOptions {
+  requestId?: string;
+  pages?: number[]; // 1-based page numbers to extract, all pages when omitted
+}
+
+export interface PDFDocument {
+  text: string;
+  pages: ExtractedPage[];
+  info: DocumentInfo;
+}
+
+export async function parsePDF(buffer: Buffer, options: PDFParseOptions = {}): Promise<PDFDocument> {
   try {
     if (!buffer || buffer.length === 0) {
       throw new Error('Empty PDF buffer provided');
     }
 
-    const data = await pdf(buffer);
-    
-    if (!data.text || data.text.trim().length === 0) {
-      throw new Error('No text content found in PDF. The PDF might be image-based or corrupted.');
+    const selected = options.pages ? new Set(options.pages) : undefined;
+    const pages: ExtractedPage[] = [];
+
+    const data = await pdf(buffer, {
+      // Nothing past the last selected page needs rendering
+      max: options.pages ? Math.max(...options.pages) : 0,
+      pagerender: async (pageData: any) => {
+        const pageNumber: number = pageData.pageNumber;
+        if (selected && !selected.has(pageNumber)) return '';
+
+        const text = normalizeText(await renderPageText(pageData));
+        pages.push({ pageNumber, text, method: 'text' });
+        return text;
+      }
+    });
+    logger.debug('PDF parsed', 'processing', { pages: data.numpages, extractedPages: pages.length }, options.requestId);
+
+    const outOfRange = options.pages?.filter(page => page > data.numpages) ?? [];
+    if (outOfRange.length > 0) {
+      throw new Error(`Page ${outOfRange[0]} is out of range, the document has ${data.numpages} page(s)`);
     }
 
-    // Clean up the extracted text
-    const cleanedText = data.text
-      .replace(/\r\n/g, '\n')  // Normalize line endings
-      .replace(/\n{3,}/g, '\n\n')  // Remove excessive newlines
-      .trim();
+    const text = pages
+      .map(page => page.text)
+      .filter(pageText => pageText.length > 0)
+      .join('\n\n');
 
-    return cleanedText;
+    return {
+      text,
+      pages,
+      info: extractDocumentInfo(data.info, data.numpages)
+    };
 
   } catch (error) {
     if (error instanceof Error) {
@@ -34,3 +66,89 @@ export async function parsePDF(buffer: Buffer): Promise<string> {
     throw new Error('Unknown error occurred while parsing PDF');
   }
 }
+
+/**
+ * Parses a page selection such as "1-3,7" into sorted, de-duplicated page numbers.
+ */
+export function parsePageRange(spec: string): number[] {
+  const pages = new Set<number>();
+
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid page range '${part}'. Use page numbers and ranges like 1-3,7`);
+    }
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (start < 1 || end < start) {
+      throw new Error(`Invalid page range '${part}'. Pages start at 1 and ranges must ascend`);
+    }
+    if (end - start >= 10000) {
+      throw new Error(`Page range '${part}' is too large`);
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  if (pages.size === 0) {
+    throw new Error('Page range is empty');
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+// Same line joining as pdf-parse's default renderer, but per page
+async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || lastY === undefined) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')  // Normalize line endings
+    .replace(/\n{3,}/g, '\n\n')  // Remove excessive newlines
+    .trim();
+}
+
+function extractDocumentInfo(info: Record<string, any> | null, pageCount: number): DocumentInfo {
+  const field = (key: string) => typeof info?.[key] === 'string' && info[key].trim() ? info[key].trim() : undefined;
+
+  return {
+    pageCount,
+    title: field('Title'),
+    author: field('Author'),
+    subject: field('Subject'),
+    creator: field('Creator'),
+    producer: field('Producer'),
+    creationDate: parsePDFDate(field('CreationDate')),
+    modificationDate: parsePDFDate(field('ModDate'))
+  };
+}
+
+// PDF dates look like D:20240131093000+01'00'
+function parsePDFDate(value?: string): string | undefined {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?'?/);
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+  const offset = sign && sign !== 'Z' && sign !== 'z' ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
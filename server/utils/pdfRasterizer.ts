@@ -0,0 +1,79 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { createCanvas } from '@napi-rs/canvas';
+
+interface RasterizeOptions {
+  dpi?: number;
+  maxDimension?: number; // Longest side in pixels, keeps huge posters from exhausting memory
+}
+
+export interface RasterizedPage {
+  pageNumber: number;
+  image: Buffer; // PNG
+  width: number;
+  height: number;
+}
+
+const require = createRequire(import.meta.url);
+const pdfjsRoot = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+/**
+ * Renders the given PDF pages to PNG images, one page at a time so only a single
+ * bitmap is held in memory.
+ */
+export async function* rasterizePdfPages(
+  buffer: Buffer,
+  pageNumbers: number[],
+  options: RasterizeOptions = {}
+): AsyncGenerator<RasterizedPage> {
+  const dpi = options.dpi || 200;
+  const maxDimension = options.maxDimension || 4000;
+
+  // Loaded lazily, the legacy build is the one that runs under Node
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: path.join(pdfjsRoot, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(pdfjsRoot, 'cmaps') + path.sep,
+    wasmUrl: path.join(pdfjsRoot, 'wasm') + path.sep,
+    isEvalSupported: false,
+    verbosity: 0
+  }).promise;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await document.getPage(pageNumber);
+      try {
+        const baseViewport = page.getViewport({ scale: 1 });
+        const scale = Math.min(
+          dpi / 72, // PDF user space is 72 units per inch
+          maxDimension / Math.max(baseViewport.width, baseViewport.height)
+        );
+        const viewport = page.getViewport({ scale });
+
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        const context = canvas.getContext('2d');
+        // Scanned pages are often transparent, OCR needs a white background
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        await page.render({
+          canvas: canvas as any,
+          canvasContext: context as any,
+          viewport
+        }).promise;
+
+        yield {
+          pageNumber,
+          image: await canvas.encode('png'),
+          width: canvas.width,
+          height: canvas.height
+        };
+      } finally {
+        page.cleanup();
+      }
+    }
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,29 @@
+// Helpers for reading query string parameters, shared by the results, audit and log parsers
+
+// A trimmed, non-empty string value, anything else counts as not given
+export function queryValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid '${name}' date '${value}'`);
+  }
+  return date;
+}
+
+// The end of a range, a bare date includes the whole day
+export function parseEndDate(value: string, name: string): Date {
+  const date = parseDate(value, name);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCHours(23, 59, 59, 999);
+  return date;
+}
+
+export function parseCount(value: string, name: string, min: number): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new Error(`Invalid ${name} '${value}'`);
+  }
+  return count;
+}
@@ -0,0 +1,72 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole tokens left after this request
+  resetSeconds: number; // Until the bucket is full again
+  retryAfter?: number; // Seconds until a denied request would be allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets per key: each holds up to `capacity` tokens and refills evenly over `windowSeconds`,
+ * so short bursts are allowed while the sustained rate stays at capacity per window. Buckets live in
+ * memory, which is per process.
+ */
+export class TokenBucketLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private refillPerMs: number;
+
+  constructor(readonly name: string, readonly options: { capacity: number; windowSeconds: number }) {
+    this.refillPerMs = options.capacity / (options.windowSeconds * 1000);
+    // Full buckets behave like missing ones, dropping them keeps idle clients from piling up
+    setInterval(() => this.prune(), options.windowSeconds * 1000).unref();
+  }
+
+  take(key: string, cost = 1): RateLimitResult {
+    const bucket = this.refill(key);
+    if (bucket.tokens < cost) {
+      return {
+        ...this.describe(bucket),
+        allowed: false,
+        retryAfter: Math.ceil((cost - bucket.tokens) / this.refillPerMs / 1000)
+      };
+    }
+    bucket.tokens -= cost;
+    this.buckets.set(key, bucket);
+    return { ...this.describe(bucket), allowed: true };
+  }
+
+  // The state of a key's bucket without taking from it
+  peek(key: string): RateLimitResult {
+    return { ...this.describe(this.refill(key)), allowed: true };
+  }
+
+  private refill(key: string): Bucket {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    if (!bucket) return { tokens: this.options.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.options.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private describe(bucket: Bucket): Omit<RateLimitResult, 'allowed'> {
+    return {
+      limit: this.options.capacity,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil((this.options.capacity - bucket.tokens) / this.refillPerMs / 1000)
+    };
+  }
+
+  private prune(): void {
+    for (const key of Array.from(this.buckets.keys())) {
+      if (this.refill(key).tokens >= this.options.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
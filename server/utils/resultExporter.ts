@@ -0,0 +1,274 @@
+import JSZip from 'jszip';
+import type { DocumentBlock, DocumentInline, FileProcessingResult, ResultMetadata } from '@shared/schema';
+
+export const EXPORT_FORMATS = ['md', 'html', 'txt', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export interface ExportedFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Renders one result as a download: a Markdown or self-contained HTML report with file
+ * details, analysis and the structured content, the plain text, or the raw JSON record.
+ */
+export function exportResult(result: FileProcessingResult, format: ExportFormat): ExportedFile {
+  const content = format === 'md' ? toMarkdown(result)
+    : format === 'html' ? toHtml(result)
+    : format === 'json' ? JSON.stringify(result, null, 2)
+    : result.extractedText ?? '';
+  return { fileName: `${result.originalName}_extracted.${format}`, contentType: CONTENT_TYPES[format], content };
+}
+
+/**
+ * Zip archive with one exported file per result, streamed as it is compressed.
+ */
+export function exportResultsZip(results: FileProcessingResult[], format: ExportFormat): NodeJS.ReadableStream {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  for (const result of results) {
+    const { fileName, content } = exportResult(result, format);
+    // Uploads often share a name, later ones get a counter
+    const base = fileName.replace(/[\\/]/g, '_');
+    let name = base;
+    for (let copy = 2; used.has(name); copy++) {
+      name = base.replace(/(\.\w+)$/, ` (${copy})$1`);
+    }
+    used.add(name);
+    zip.file(name, content);
+  }
+  return zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' });
+}
+
+// Label and value rows shown at the top of a report
+function detailRows(result: FileProcessingResult): Array<[string, string]> {
+  const metadata = (result.metadata ?? {}) as ResultMetadata;
+  const analysis = result.analysis;
+  const rows: Array<[string, string | number | undefined | null]> = [
+    ['File', result.originalName],
+    ['Type', result.mimeType],
+    ['Size', formatBytes(result.fileSize)],
+    ['Status', result.status],
+    ['Uploaded', result.createdAt.toISOString()],
+    ['Processing time', result.processingTime !== null ? `${result.processingTime} ms` : undefined],
+    ['Error', result.errorMessage],
+    ['Words', result.wordCount],
+    ['Characters', result.characterCount],
+    ['Title', metadata.document?.title],
+    ['Author', metadata.document?.author],
+    ['Pages', metadata.document?.pageCount],
+    ['OCR languages', metadata.ocrLanguages],
+    ['OCR confidence', metadata.ocrConfidence !== undefined ? `${Math.round(metadata.ocrConfidence)}%` : undefined],
+    ['Language', analysis?.language],
+    ['Sentences', analysis?.sentenceCount],
+    ['Paragraphs', analysis?.paragraphCount],
+    ['Readability', analysis?.readabilityScore !== undefined ? Math.round(analysis.readabilityScore) : undefined],
+    ['Contains PII', analysis?.containsPII !== undefined ? (analysis.containsPII ? 'yes' : 'no') : undefined],
+    ['Topics', analysis?.topics?.join(', ')]
+  ];
+  return rows
+    .filter((row): row is [string, string | number] => row[1] !== undefined && row[1] !== null && row[1] !== '')
+    .map(([label, value]) => [label, String(value)]);
+}
+
+// Pages are only worth their own sections when there is more than one with text
+function contentPages(result: FileProcessingResult) {
+  const pages = ((result.metadata ?? {}) as ResultMetadata).pages?.filter(page => page.text.length > 0);
+  return pages && pages.length > 1 ? pages : undefined;
+}
+
+function toMarkdown(result: FileProcessingResult): string {
+  const metadata = (result.metadata ?? {}) as ResultMetadata;
+  const lines = [
+    `# ${result.originalName}`,
+    '',
+    '| | |',
+    '| --- | --- |',
+    ...detailRows(result).map(([label, value]) => `| ${label} | ${markdownCell(value)} |`),
+    ''
+  ];
+
+  if (metadata.structure) {
+    lines.push(...metadata.structure.blocks.map(block => markdownBlock(block)), '');
+    if (metadata.structure.notes.length > 0) {
+      lines.push('## Notes', '', ...metadata.structure.notes.map(note => `- ${note.label ?? ''} ${note.text}`.trim()), '');
+    }
+  } else if (contentPages(result)) {
+    for (const page of contentPages(result)!) {
+      const ocr = page.method === 'ocr' ? ` (OCR${page.confidence !== undefined ? `, ${Math.round(page.confidence)}% confidence` : ''})` : '';
+      lines.push(`## Page ${page.pageNumber}${ocr}`, '', page.text, '');
+    }
+  } else if (result.extractedText) {
+    lines.push('## Content', '', result.extractedText, '');
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n');
+}
+
+function markdownBlock(block: DocumentBlock, depth = 0): string {
+  switch (block.type) {
+    case 'heading':
+      // The report title is the only level 1 heading
+      return `${'#'.repeat(Math.min(block.level + 1, 6))} ${markdownInlines(block.content)}\n`;
+    case 'paragraph':
+      return `${markdownInlines(block.content)}\n`;
+    case 'list':
+      return block.items.map((item, index) => {
+        const marker = block.ordered ? `${index + 1}.` : '-';
+        const indent = '   '.repeat(depth);
+        return item.map((child, childIndex) => child.type === 'list'
+          ? markdownBlock(child, depth + 1).trimEnd()
+          : `${indent}${childIndex === 0 ? marker : ' '.repeat(marker.length)} ${markdownBlock(child, depth + 1).trim()}`
+        ).join('\n');
+      }).join('\n') + '\n';
+    case 'table': {
+      const [header = [], ...rows] = block.rows;
+      return [
+        `| ${header.map(markdownCell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+      ].join('\n') + '\n';
+    }
+    case 'image': {
+      const caption = `*Image${block.altText ? `: ${block.altText}` : ''}*`;
+      return block.text ? `${caption}\n\n> ${block.text.replace(/\n/g, '\n> ')}\n` : `${caption}\n`;
+    }
+  }
+}
+
+function markdownInlines(content: DocumentInline[]): string {
+  return content.map(inline => {
+    let text = inline.text;
+    if (!text.trim()) return text;
+    if (inline.bold) text = `**${text}**`;
+    if (inline.italic) text = `*${text}*`;
+    if (inline.href?.startsWith('#')) return text; // Note references, notes follow at the end
+    return inline.href ? `[${text}](${inline.href})` : text;
+  }).join('').trim();
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; color: #1f2933; line-height: 1.5; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; white-space: pre-wrap; }
+  th { background: #f3f4f6; }
+  .details th { width: 10rem; }
+  pre { white-space: pre-wrap; font-family: ui-monospace, monospace; background: #f6f8fa; padding: 1rem; border-radius: 0.375rem; }
+  figure { border: 1px dashed #d0d7de; padding: 0.5rem; margin: 1rem 0; }
+  figcaption, .muted { color: #6b7280; font-size: 0.875rem; }
+`;
+
+function toHtml(result: FileProcessingResult): string {
+  const metadata = (result.metadata ?? {}) as ResultMetadata;
+  const body: string[] = [
+    `<h1>${escapeHtml(result.originalName)}</h1>`,
+    '<table class="details">',
+    ...detailRows(result).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`),
+    '</table>'
+  ];
+
+  if (metadata.structure) {
+    body.push(...metadata.structure.blocks.map(block => htmlBlock(block)));
+    if (metadata.structure.notes.length > 0) {
+      body.push('<h2>Notes</h2>', '<ol>', ...metadata.structure.notes.map(note =>
+        `<li id="${escapeHtml(note.id)}"><span class="muted">${escapeHtml(note.label ?? '')}</span> ${escapeHtml(note.text)}</li>`
+      ), '</ol>');
+    }
+  } else if (contentPages(result)) {
+    for (const page of contentPages(result)!) {
+      const ocr = page.method === 'ocr' ? ` <span class="muted">OCR${page.confidence !== undefined ? ` · ${Math.round(page.confidence)}% confidence` : ''}</span>` : '';
+      body.push(`<h2>Page ${page.pageNumber}${ocr}</h2>`, `<pre>${escapeHtml(page.text)}</pre>`);
+    }
+  } else if (result.extractedText) {
+    body.push('<h2>Content</h2>', `<pre>${escapeHtml(result.extractedText)}</pre>`);
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(result.originalName)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
+
+function htmlBlock(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level + 1, 6);
+      return `<h${level}>${htmlInlines(block.content)}</h${level}>`;
+    }
+    case 'paragraph':
+      return `<p>${htmlInlines(block.content)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${item.map(htmlBlock).join('')}</li>`).join('')}</${tag}>`;
+    }
+    case 'table': {
+      const [header = [], ...rows] = block.rows;
+      return [
+        '<table>',
+        `<thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>`,
+        `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>`,
+        '</table>'
+      ].join('');
+    }
+    case 'image':
+      return [
+        '<figure>',
+        `<figcaption>Image${block.altText ? `: ${escapeHtml(block.altText)}` : ''}</figcaption>`,
+        block.text ? `<pre>${escapeHtml(block.text)}</pre>` : '',
+        '</figure>'
+      ].join('');
+  }
+}
+
+function htmlInlines(content: DocumentInline[]): string {
+  return content.map(inline => {
+    let html = escapeHtml(inline.text);
+    if (inline.bold) html = `<strong>${html}</strong>`;
+    if (inline.italic) html = `<em>${html}</em>`;
+    if (inline.href?.startsWith('#')) return `<sup><a href="${escapeHtml(inline.href)}">${html}</a></sup>`;
+    // Only web and mail links, a document could carry javascript: URLs
+    if (inline.href && /^(https?:|mailto:)/i.test(inline.href)) return `<a href="${escapeHtml(inline.href)}">${html}</a>`;
+    return html;
+  }).join('').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,102 @@
+import {
+  RESULT_FILE_TYPES,
+  RESULT_SORT_FIELDS,
+  RESULT_STATUSES,
+  type ResultFilters,
+  type ResultQuery
+} from '@shared/schema';
+import { parseCount, parseDate, parseEndDate, queryValue } from './queryParams';
+
+export const DEFAULT_RESULT_PAGE_SIZE = 50;
+export const MAX_RESULT_PAGE_SIZE = 200;
+
+/**
+ * Reads the results list filters from a query string: status, type, mimeType, from, to,
+ * language, hasPII and q. Throws on values that are not understood rather than silently
+ * ignoring them.
+ */
+export function parseResultFilters(query: Record<string, unknown>): ResultFilters {
+  const filters: ResultFilters = {};
+
+  const status = queryValue(query.status);
+  if (status) {
+    if (!(RESULT_STATUSES as readonly string[]).includes(status)) {
+      throw new Error(`Unknown status '${status}'. Use ${RESULT_STATUSES.join(', ')}`);
+    }
+    filters.status = status as ResultFilters['status'];
+  }
+
+  const type = queryValue(query.type);
+  if (type) {
+    if (!(RESULT_FILE_TYPES as readonly string[]).includes(type)) {
+      throw new Error(`Unknown file type '${type}'. Use ${RESULT_FILE_TYPES.join(', ')}`);
+    }
+    filters.type = type as ResultFilters['type'];
+  }
+
+  const mimeType = queryValue(query.mimeType);
+  if (mimeType) {
+    if (!/^[\w.+-]+\/([\w.+-]+|\*)$/.test(mimeType)) {
+      throw new Error(`Invalid mime type '${mimeType}'`);
+    }
+    filters.mimeType = mimeType.toLowerCase();
+  }
+
+  const from = queryValue(query.from);
+  if (from) filters.from = parseDate(from, 'from');
+  const to = queryValue(query.to);
+  if (to) filters.to = parseEndDate(to, 'to');
+
+  const language = queryValue(query.language);
+  if (language) filters.language = language.toLowerCase();
+
+  const hasPII = queryValue(query.hasPII);
+  if (hasPII) {
+    if (hasPII !== 'true' && hasPII !== 'false') {
+      throw new Error(`Invalid hasPII '${hasPII}'. Use true or false`);
+    }
+    filters.hasPII = hasPII === 'true';
+  }
+
+  const q = queryValue(query.q);
+  if (q) filters.q = q;
+
+  return filters;
+}
+
+/**
+ * Filters plus sort and offset pagination: sort, order, limit and offset.
+ */
+export function parseResultQuery(query: Record<string, unknown>): ResultQuery {
+  const parsed: ResultQuery = parseResultFilters(query);
+
+  const sort = queryValue(query.sort);
+  if (sort) {
+    if (!(RESULT_SORT_FIELDS as readonly string[]).includes(sort)) {
+      throw new Error(`Unknown sort field '${sort}'. Use ${RESULT_SORT_FIELDS.join(', ')}`);
+    }
+    parsed.sort = sort as ResultQuery['sort'];
+  }
+
+  const order = queryValue(query.order);
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error(`Invalid order '${order}'. Use asc or desc`);
+    }
+    parsed.order = order;
+  }
+
+  return { ...parsed, ...parsePage(query) };
+}
+
+/**
+ * Offset pagination: limit, capped at the largest page, and offset.
+ */
+export function parsePage(query: Record<string, unknown>): { limit: number; offset: number } {
+  const limit = queryValue(query.limit);
+  const offset = queryValue(query.offset);
+  return {
+    limit: limit ? Math.min(parseCount(limit, 'limit', 1), MAX_RESULT_PAGE_SIZE) : DEFAULT_RESULT_PAGE_SIZE,
+    offset: offset ? parseCount(offset, 'offset', 0) : 0
+  };
+}
@@ -0,0 +1,118 @@
+import ExcelJS from 'exceljs';
+import { once } from 'events';
+import type { Writable } from 'stream';
+import { extractHashtags, extractMentions } from './textProcessor';
+import type { AuditEntry, FileProcessingResult } from '@shared/schema';
+
+type CellValue = string | number | boolean | Date | null;
+
+interface Column<T> {
+  header: string;
+  width: number; // Characters, for the XLSX sheet
+  value: (row: T) => CellValue;
+}
+
+// How many topics a row lists, the analysis keeps up to ten
+const TOP_TOPICS = 5;
+
+// One row per result, the same columns in CSV and XLSX
+const RESULT_COLUMNS: Column<FileProcessingResult>[] = [
+  { header: 'ID', width: 38, value: result => result.id },
+  { header: 'Name', width: 32, value: result => result.originalName },
+  { header: 'Mime type', width: 24, value: result => result.mimeType },
+  { header: 'Size (bytes)', width: 12, value: result => result.fileSize },
+  { header: 'Status', width: 12, value: result => result.status },
+  { header: 'Uploaded', width: 22, value: result => result.createdAt },
+  { header: 'Updated', width: 22, value: result => result.updatedAt },
+  { header: 'Processing time (ms)', width: 12, value: result => result.processingTime },
+  { header: 'Words', width: 10, value: result => result.wordCount },
+  { header: 'Characters', width: 12, value: result => result.characterCount },
+  { header: 'Language', width: 10, value: result => result.analysis?.language ?? null },
+  {
+    header: 'Readability',
+    width: 12,
+    value: result => result.analysis?.readabilityScore !== undefined ? Math.round(result.analysis.readabilityScore * 10) / 10 : null
+  },
+  { header: 'Contains PII', width: 12, value: result => result.analysis?.containsPII ?? null },
+  { header: 'Top topics', width: 40, value: result => result.analysis?.topics?.slice(0, TOP_TOPICS).join('; ') ?? null },
+  // As written, csvValue keeps a leading @ from being read as a formula and XLSX cells are plain strings
+  { header: 'Hashtags', width: 30, value: result => result.extractedText ? extractHashtags(result.extractedText).join('; ') : null },
+  { header: 'Mentions', width: 30, value: result => result.extractedText ? extractMentions(result.extractedText).join('; ') : null },
+  { header: 'Error', width: 40, value: result => result.errorMessage }
+];
+
+// One row per audit entry, the hashes let an exported trail be checked against the chain
+const AUDIT_COLUMNS: Column<AuditEntry>[] = [
+  { header: 'ID', width: 10, value: entry => entry.id },
+  { header: 'Time', width: 24, value: entry => entry.timestamp },
+  { header: 'Actor ID', width: 38, value: entry => entry.actorId },
+  { header: 'Actor', width: 20, value: entry => entry.actorName },
+  { header: 'API key ID', width: 38, value: entry => entry.apiKeyId },
+  { header: 'Action', width: 16, value: entry => entry.action },
+  { header: 'Result ID', width: 38, value: entry => entry.resultId },
+  { header: 'IP', width: 16, value: entry => entry.ip },
+  { header: 'User agent', width: 40, value: entry => entry.userAgent },
+  { header: 'Details', width: 40, value: entry => entry.details ? JSON.stringify(entry.details) : null },
+  { header: 'Previous hash', width: 66, value: entry => entry.prevHash },
+  { header: 'Hash', width: 66, value: entry => entry.hash }
+];
+
+/**
+ * Writes results as CSV while they are read, waiting whenever the response is backed up.
+ */
+export async function writeResultsCsv(batches: AsyncIterable<FileProcessingResult[]>, out: Writable): Promise<void> {
+  await writeCsv(RESULT_COLUMNS, batches, out);
+}
+
+export async function writeAuditCsv(batches: AsyncIterable<AuditEntry[]>, out: Writable): Promise<void> {
+  await writeCsv(AUDIT_COLUMNS, batches, out);
+}
+
+/**
+ * Writes results as an XLSX workbook with a single sheet, rows are committed as they arrive.
+ */
+export async function writeResultsXlsx(batches: AsyncIterable<FileProcessingResult[]>, out: Writable): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+  const sheet = workbook.addWorksheet('Results', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = RESULT_COLUMNS.map(column => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+
+  for await (const batch of batches) {
+    for (const result of batch) {
+      sheet.addRow(RESULT_COLUMNS.map(column => column.value(result))).commit();
+    }
+  }
+  sheet.commit();
+  await workbook.commit();
+}
+
+async function writeCsv<T>(columns: Column<T>[], batches: AsyncIterable<T[]>, out: Writable): Promise<void> {
+  // Byte order mark so Excel opens the file as UTF-8
+  await write(out, '\uFEFF' + csvLine(columns.map(column => column.header)));
+  for await (const batch of batches) {
+    const lines = batch.map(row => csvLine(columns.map(column => csvValue(column.value(row)))));
+    await write(out, lines.join(''));
+  }
+  out.end();
+}
+
+async function write(out: Writable, chunk: string): Promise<void> {
+  if (!out.write(chunk)) {
+    await once(out, 'drain');
+  }
+}
+
+function csvLine(values: string[]): string {
+  return values.join(',') + '\r\n';
+}
+
+// RFC 4180 quoting, and a leading quote on values a spreadsheet would run as a formula
+function csvValue(value: CellValue): string {
+  if (value === null) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
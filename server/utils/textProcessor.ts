@@ -1,3 +1,5 @@
+import { correctOCRText } from './ocrCorrection';
+
 interface TextAnalysis {
   wordCount: number;
   characterCount: number;
@@ -167,6 +169,23 @@ function extractTopics(text: string): string[] {
     .map(([word]) => word);
 }
 
+// Distinct #hashtags in order of appearance, pure numbers like #1 are not tags
+export function extractHashtags(text: string): string[] {
+  const tags = Array.from(text.matchAll(/(?<![\w&#])#(\w*[A-Za-z_]\w*)/g), match => `#${match[1]}`);
+  return Array.from(new Set(tags));
+}
+
+// Distinct @mentions in order of appearance, e-mail addresses are skipped
+export function extractMentions(text: string): string[] {
+  const mentions = Array.from(text.matchAll(/(?<![\w.@])@(\w{1,30})\b(?!\.\w)/g), match => `@${match[1]}`);
+  return Array.from(new Set(mentions));
+}
+
+// Words of extracted text as stored in a result's wordCount
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
 export function cleanExtractedText(text: string, sourceType: 'pdf' | 'ocr' | 'docx' | 'txt'): string {
   let cleaned = text;
   
@@ -180,14 +199,8 @@ export function cleanExtractedText(text: string, sourceType: 'pdf' | 'ocr' | 'do
       break;
       
     case 'ocr':
-      // OCR often has character recognition errors
-      cleaned = cleaned
-        .replace(/[|\\]/g, 'l') // Common OCR errors
-        .replace(/0/g, 'O') // Zero to O in appropriate contexts
-        .replace(/5/g, 'S') // 5 to S in appropriate contexts
-        .replace(/1/g, 'l') // 1 to l in appropriate contexts
-        .replace(/rn/g, 'm') // rn to m
-        .replace(/\s{2,}/g, ' '); // Multiple spaces to single
+      // OCR often has character recognition errors, fixed only where the dictionary agrees
+      cleaned = correctOCRText(cleaned);
       break;
       
     case 'docx':
@@ -207,8 +220,12 @@ export function cleanExtractedText(text: string, sourceType: 'pdf' | 'ocr' | 'do
       break;
   }
   
-  // Apply general preprocessing
-  return preprocessText(cleaned, {
+  return normalizeExtractedText(cleaned);
+}
+
+// General preprocessing every extracted text gets after its source-specific cleaning
+export function normalizeExtractedText(text: string): string {
+  return preprocessText(text, {
     removeExtraWhitespace: true,
     normalizeUnicode: true,
     maxLength: 100000 // 100KB max
@@ -0,0 +1,295 @@
+import { newStemmer, type Stemmer } from 'snowball-stemmers';
+import type { SearchMatch, SearchSnippet } from '@shared/schema';
+import { isStopWord } from './stopWords';
+
+export interface SearchWord {
+  text: string; // Lowercased as typed
+  prefix: boolean; // Ends in *, matches any word starting with the text
+}
+
+// A single word, or the words of a quoted phrase in order. A result has to match every clause
+export type SearchClause = SearchWord[];
+
+// Analysis language codes and the stemmer used for their text, Postgres has configurations of the same names
+export const SEARCH_LANGUAGES: Record<string, string> = {
+  en: 'english',
+  es: 'spanish',
+  fr: 'french'
+};
+const DEFAULT_SEARCH_LANGUAGE = 'en';
+
+// Letters and digits, anything else separates words. Built at runtime, the compile target predates the u flag
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+const MAX_QUERY_CLAUSES = 16;
+const MAX_MATCHES = 100;
+const SNIPPET_CONTEXT = 60; // Characters either side of a match
+const MAX_SNIPPETS = 3;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+const stemmers = new Map<string, Stemmer>();
+
+// Text in any other language is searched as English, like the CASE in resultSearchDocument
+function searchLanguage(language: string | undefined): string {
+  return language && SEARCH_LANGUAGES[language] ? language : DEFAULT_SEARCH_LANGUAGE;
+}
+
+function stemmerFor(language: string | undefined): Stemmer {
+  const code = searchLanguage(language);
+  let stemmer = stemmers.get(code);
+  if (!stemmer) {
+    stemmer = newStemmer(SEARCH_LANGUAGES[code]);
+    stemmers.set(code, stemmer);
+  }
+  return stemmer;
+}
+
+export function stem(term: string, language?: string): string {
+  return stemmerFor(language).stem(term);
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * Stems of the words of a text, in order, as the inverted index stores them. Stop words are
+ * null, they keep their position so phrases around them line up as in Postgres.
+ */
+export function indexStems(text: string, language?: string): Array<string | null> {
+  const code = searchLanguage(language);
+  return tokenize(text).map(token => isStopWord(token.term, code) ? null : stem(token.term, code));
+}
+
+/**
+ * Splits a search into clauses: "quoted phrases" and single words, either can end in * to match
+ * by prefix. Punctuation is ignored, so the clauses are safe to put into a Postgres tsquery.
+ */
+export function parseSearchQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  for (const match of Array.from(query.matchAll(/"([^"]*)"?|(\S+)/g))) {
+    const raw = match[1] ?? match[2];
+    const words: SearchWord[] = Array.from(raw.matchAll(WORD_PATTERN), word => ({
+      text: word[0].toLowerCase(),
+      prefix: raw[word.index! + word[0].length] === '*'
+    }));
+    if (words.length > 0) clauses.push(words);
+  }
+  if (clauses.length > MAX_QUERY_CLAUSES) {
+    throw new Error(`Search has too many terms, at most ${MAX_QUERY_CLAUSES} are allowed`);
+  }
+  return clauses;
+}
+
+/**
+ * The clauses as tsquery syntax: words joined by & and phrases by <->, prefix words end in :*.
+ */
+export function toTsQuery(clauses: SearchClause[]): string {
+  return clauses
+    .map(clause => `(${clause.map(word => word.prefix ? `${word.text}:*` : word.text).join(' <-> ')})`)
+    .join(' & ');
+}
+
+/**
+ * Where the clauses occur in a text, in order of offset. Words are compared by their stem in the
+ * text's language, prefix words by the word as written.
+ */
+export function findMatches(text: string, clauses: SearchClause[], language?: string): SearchMatch[] {
+  const tokens = tokenize(text);
+  const stems = tokens.map(token => stem(token.term, language));
+  const matches: SearchMatch[] = [];
+
+  for (const clause of clauses) {
+    const wanted = clause.map(word => word.prefix ? word.text : stem(word.text, language));
+    for (let i = 0; i + clause.length <= tokens.length; i++) {
+      const found = clause.every((word, k) => word.prefix
+        ? tokens[i + k].term.startsWith(wanted[k])
+        : stems[i + k] === wanted[k]);
+      if (found) {
+        matches.push({ start: tokens[i].start, end: tokens[i + clause.length - 1].end });
+      }
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((match, index, sorted) => index === 0 || match.start >= sorted[index - 1].end)
+    .slice(0, MAX_MATCHES);
+}
+
+/**
+ * Short excerpts around the first matches. Nearby matches share an excerpt, which is cut at
+ * word boundaries; highlight offsets are relative to the excerpt text.
+ */
+export function buildSnippets(text: string, matches: SearchMatch[]): SearchSnippet[] {
+  const snippets: SearchSnippet[] = [];
+  for (const match of matches) {
+    const last = snippets[snippets.length - 1];
+    if (last && match.start - SNIPPET_CONTEXT <= last.end) {
+      last.end = Math.max(last.end, wordEnd(text, match.end + SNIPPET_CONTEXT, match.end));
+      last.highlights.push({ start: match.start, end: match.end });
+      continue;
+    }
+    if (snippets.length === MAX_SNIPPETS) break;
+    snippets.push({
+      text: '',
+      start: wordStart(text, match.start - SNIPPET_CONTEXT, match.start),
+      end: wordEnd(text, match.end + SNIPPET_CONTEXT, match.end),
+      highlights: [{ start: match.start, end: match.end }]
+    });
+  }
+
+  return snippets.map(snippet => ({
+    ...snippet,
+    text: text.slice(snippet.start, snippet.end).replace(/\s/g, ' '),
+    highlights: snippet.highlights.map(highlight => ({
+      start: highlight.start - snippet.start,
+      end: highlight.end - snippet.start
+    }))
+  }));
+}
+
+// Moves an excerpt boundary to the nearest whole word, never past the match it surrounds
+function wordStart(text: string, offset: number, matchStart: number): number {
+  if (offset <= 0) return 0;
+  const space = text.slice(offset, matchStart).search(/\s/);
+  return space === -1 ? offset : offset + space + 1;
+}
+
+function wordEnd(text: string, offset: number, matchEnd: number): number {
+  if (offset >= text.length) return text.length;
+  const space = text.slice(matchEnd, offset).search(/\s\S*$/);
+  return space === -1 ? offset : matchEnd + space;
+}
+
+/**
+ * In-memory inverted index of result text: stems to the results and word positions
+ * they occur at, ranked by term frequency against how common a term is.
+ */
+export class InvertedIndex {
+  private stems = new Map<string, Map<string, number[]>>();
+  // Word count and stems of each indexed result, so removing one only touches its own postings
+  private documents = new Map<string, { length: number; stems: Set<string> }>();
+
+  add(id: string, text: string, language?: string): void {
+    this.remove(id);
+    const stems = indexStems(text, language);
+    stems.forEach((stem, position) => {
+      if (stem !== null) addPosting(this.stems, stem, id, position);
+    });
+    this.documents.set(id, {
+      length: stems.length,
+      stems: new Set(stems.filter((stem): stem is string => stem !== null))
+    });
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+    removePostings(this.stems, document.stems, id);
+    this.documents.delete(id);
+  }
+
+  clear(): void {
+    this.stems.clear();
+    this.documents.clear();
+  }
+
+  /**
+   * Ids of the results matching every clause, best ranked first. Postgres ORs the query in each
+   * search language, stemmed in it and without its stop words, and so does this.
+   */
+  search(clauses: SearchClause[]): Array<{ id: string; score: number }> {
+    const best = new Map<string, number>();
+    for (const language of Object.keys(SEARCH_LANGUAGES)) {
+      const phrases = clauses
+        .map(clause => clause
+          .map((word, offset) => ({ word, offset }))
+          .filter(({ word }) => !isStopWord(word.text, language)))
+        .filter(phrase => phrase.length > 0);
+      for (const { id, score } of this.searchPhrases(phrases, language)) {
+        best.set(id, Math.max(best.get(id) ?? 0, score));
+      }
+    }
+    return Array.from(best, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+  }
+
+  // Results matching every phrase, whose words are offset from the first as in the query
+  private searchPhrases(phrases: Array<Array<{ word: SearchWord; offset: number }>>, language: string): Array<{ id: string; score: number }> {
+    if (phrases.length === 0) return [];
+    let scores: Map<string, number> | undefined;
+
+    for (const phrase of phrases) {
+      const wordPostings = phrase.map(({ word }) => this.postingsFor(word, language));
+      const clauseScores = new Map<string, number>();
+      for (const [id, firstPositions] of Array.from(wordPostings[0])) {
+        if (scores && !scores.has(id)) continue;
+        const occurrences = Array.from(firstPositions).filter(position =>
+          wordPostings.every((postings, k) => postings.get(id)?.has(position + phrase[k].offset - phrase[0].offset))
+        ).length;
+        if (occurrences > 0) clauseScores.set(id, 1 + Math.log(occurrences));
+      }
+
+      const idf = Math.log(1 + this.documents.size / Math.max(clauseScores.size, 1));
+      const combined = new Map<string, number>();
+      for (const [id, score] of Array.from(clauseScores)) {
+        combined.set(id, (scores?.get(id) ?? 0) + score * idf);
+      }
+      scores = combined;
+      if (scores.size === 0) break;
+    }
+
+    return Array.from(scores!, ([id, score]) => ({ id, score: score / (1 + Math.log(1 + (this.documents.get(id)?.length ?? 0))) }));
+  }
+
+  // Positions per result of a query word stemmed in the language, prefix words match the start of a stem
+  private postingsFor(word: SearchWord, language: string): Map<string, Set<number>> {
+    const wanted = stem(word.text, language);
+    const lists: Array<Map<string, number[]>> = [];
+    if (word.prefix) {
+      for (const [key, ids] of Array.from(this.stems)) {
+        if (key.startsWith(wanted)) lists.push(ids);
+      }
+    } else {
+      const ids = this.stems.get(wanted);
+      if (ids) lists.push(ids);
+    }
+
+    const merged = new Map<string, Set<number>>();
+    for (const ids of lists) {
+      for (const [id, positions] of Array.from(ids)) {
+        const set = merged.get(id) ?? new Set<number>();
+        positions.forEach(position => set.add(position));
+        merged.set(id, set);
+      }
+    }
+    return merged;
+  }
+}
+
+function addPosting(postings: Map<string, Map<string, number[]>>, key: string, id: string, position: number): void {
+  let ids = postings.get(key);
+  if (!ids) {
+    ids = new Map();
+    postings.set(key, ids);
+  }
+  const positions = ids.get(id);
+  if (positions) positions.push(position);
+  else ids.set(id, [position]);
+}
+
+function removePostings(postings: Map<string, Map<string, number[]>>, keys: Set<string>, id: string): void {
+  for (const key of Array.from(keys)) {
+    const ids = postings.get(key);
+    if (ids?.delete(id) && ids.size === 0) postings.delete(key);
+  }
+}
@@ -1,4 +1,10 @@
-export async function parseTxt(buffer: Buffer): Promise<string> {
+import { logger } from './logger';
+
+interface TxtParseOptions {
+  requestId?: string;
+}
+
+export async function parseTxt(buffer: Buffer, options: TxtParseOptions = {}): Promise<string> {
   try {
     if (!buffer || buffer.length === 0) {
       throw new Error('Empty text buffer provided');
@@ -6,6 +12,7 @@ export async function parseTxt(buffer: Buffer): Promise<string> {
 
     // Try different encodings to handle various text files
     let text: string;
+    let encoding: BufferEncoding = 'utf8';
     
     // First try UTF-8
     try {
@@ -18,11 +25,14 @@ export async function parseTxt(buffer: Buffer): Promise<string> {
       // Fallback to Latin-1 (ISO-8859-1) for older files
       try {
         text = buffer.toString('latin1');
+        encoding = 'latin1';
       } catch {
         // Final fallback to ASCII
         text = buffer.toString('ascii');
+        encoding = 'ascii';
       }
     }
+    logger.debug('Text file decoded', 'processing', { encoding }, options.requestId);
 
     if (!text || text.trim().length === 0) {
       throw new Error('No text content found in file. The file might be empty.');
@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { BatchProcessor, type BatchJob } from './batchProcessor';
+import { extractContent, getSourceType } from './contentExtractor';
+import { cleanExtractedText, analyzeText, countWords } from './textProcessor';
+import { logger } from './logger';
+import { storage } from '../storage';
+import { fileStore } from '../fileStore';
+import { reserveOcrPage } from './usageQuotas';
+import {
+  TEXT_ANALYSIS_VERSION,
+  type FileProcessingResult,
+  type BatchEvent,
+  type BatchJobSummary,
+  type BatchStatus
+} from '@shared/schema';
+
+interface QueuedFile {
+  requestId: string;
+  workspaceId: string;
+  resultId: string;
+  originalName: string;
+  mimetype: string;
+  buffer?: Buffer; // Released once the job has finished
+  pages?: number[]; // PDF page selection
+  languages?: string; // OCR languages
+  ocrImages?: boolean; // OCR images embedded in DOCX files
+  metadata: Record<string, any>;
+  startedAt?: number;
+  stage?: string;
+}
+
+interface UploadBatch {
+  id: string;
+  requestId: string;
+  workspaceId: string;
+  processor: BatchProcessor;
+  status: 'processing' | 'completed';
+  createdAt: Date;
+  completedAt?: Date;
+  pendingWrites: Set<Promise<void>>;
+}
+
+const BATCH_RETENTION_MS = 60 * 60 * 1000; // Keep finished batches queryable for an hour
+
+class UploadQueue {
+  private batches: Map<string, UploadBatch> = new Map();
+  private events = new EventEmitter().setMaxListeners(0); // One channel per batch id
+
+  constructor(private options: { maxConcurrency: number; timeout: number }) {}
+
+  enqueue(files: Array<Omit<QueuedFile, 'requestId' | 'workspaceId' | 'startedAt' | 'stage'>>, requestId: string, workspaceId: string): string {
+    const batchId = randomUUID();
+    const processor = new BatchProcessor({
+      maxConcurrency: this.options.maxConcurrency,
+      timeout: this.options.timeout,
+      retryAttempts: 0, // Extraction failures are deterministic, retrying only doubles the wait
+      onProgress: (job, overall) => this.publish(batchId, { type: 'progress', job: summarizeJob(job), overall }),
+      onJobComplete: (job) => {
+        this.releaseBuffer(job);
+        this.logJobFinished(batch);
+        this.publish(batchId, { type: 'jobComplete', job: summarizeJob(job) });
+      },
+      onJobError: (job, error) => {
+        this.releaseBuffer(job);
+        this.logJobFinished(batch);
+        logger.logProcessingError(
+          requestId,
+          job.file.originalName,
+          getSourceType(job.file.mimetype) || job.file.mimetype,
+          error instanceof Error ? error.message : 'Unknown processing error',
+          job.file.startedAt ? Date.now() - job.file.startedAt : 0
+        );
+        // Only announce the failure once it is visible through /api/results
+        this.trackWrite(batch, this.markFailed(job.file, error)
+          .then(() => this.publish(batchId, { type: 'jobError', job: summarizeJob(job) })));
+      }
+    });
+
+    files.forEach(file => {
+      processor.addJob(file.resultId, { ...file, requestId, workspaceId, stage: 'queued' });
+      logger.debug(`File queued: ${file.originalName}`, 'upload', { batchId, resultId: file.resultId }, requestId);
+    });
+
+    const batch: UploadBatch = {
+      id: batchId,
+      requestId,
+      workspaceId,
+      processor,
+      status: 'processing',
+      createdAt: new Date(),
+      pendingWrites: new Set()
+    };
+    this.batches.set(batch.id, batch);
+    logger.logBatchStart(requestId, files.length);
+
+    processor.processBatch((file, updateProgress, signal) => this.processFile(file, updateProgress, signal))
+      .catch(error => {
+        logger.error('Batch processing aborted', 'processing', {
+          batchId: batch.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, requestId);
+      })
+      .then(() => Promise.allSettled(batch.pendingWrites))
+      .finally(() => {
+        batch.status = 'completed';
+        batch.completedAt = new Date();
+
+        const statistics = processor.getBatchStatistics();
+        logger.logBatchComplete(requestId, {
+          total: statistics.total,
+          completed: statistics.completed,
+          failed: statistics.failed,
+          duration: statistics.totalProcessingTime
+        });
+        logger.endRequest(requestId, { batchId: batch.id, completed: statistics.completed, failed: statistics.failed });
+
+        this.publish(batch.id, { type: 'batchComplete', statistics });
+        setTimeout(() => this.batches.delete(batch.id), BATCH_RETENTION_MS).unref();
+      });
+
+    return batch.id;
+  }
+
+  subscribe(batchId: string, listener: (event: BatchEvent) => void): () => void {
+    this.events.on(batchId, listener);
+    return () => {
+      this.events.off(batchId, listener);
+    };
+  }
+
+  // Batches of other workspaces are not found
+  getBatchStatus(id: string, workspaceId: string): BatchStatus | undefined {
+    const batch = this.batches.get(id);
+    if (!batch || batch.workspaceId !== workspaceId) return undefined;
+
+    return {
+      id: batch.id,
+      status: batch.status,
+      createdAt: batch.createdAt.toISOString(),
+      completedAt: batch.completedAt?.toISOString(),
+      statistics: batch.processor.getBatchStatistics(),
+      jobs: batch.processor.getAllJobs().map(job => summarizeJob(job))
+    };
+  }
+
+  // Checks the signal before every write, a timed-out job is already marked failed and must stay that way
+  private async processFile(file: QueuedFile, updateProgress: (progress: number) => void, signal: AbortSignal): Promise<FileProcessingResult | undefined> {
+    file.startedAt = file.startedAt ?? Date.now();
+    if (!file.buffer) {
+      throw new Error('File contents are no longer available');
+    }
+
+    let lastProgress = 0;
+    const report = (stage: string, progress: number) => {
+      // OCR reports many fractional updates, only forward whole-percent changes
+      const rounded = Math.round(progress);
+      if (signal.aborted || (file.stage === stage && rounded === lastProgress)) return;
+      file.stage = stage;
+      lastProgress = rounded;
+      updateProgress(rounded);
+    };
+
+    const { requestId } = file;
+    logger.logProcessingStart(requestId, file.originalName, getSourceType(file.mimetype) || file.mimetype);
+
+    signal.throwIfAborted();
+    await storage.updateFileProcessingResult(file.workspaceId, file.resultId, { status: 'processing' });
+    report('extracting', 10);
+
+    const extracted = await extractContent(
+      { mimetype: file.mimetype, buffer: file.buffer },
+      {
+        requestId,
+        pages: file.pages,
+        languages: file.languages,
+        ocrImages: file.ocrImages,
+        // Charged page by page, so a document cannot run past the quota once it is used up
+        reserveOcrPage: () => {
+          signal.throwIfAborted();
+          return reserveOcrPage(file.workspaceId);
+        },
+        onProgress: (fraction) => report('recognizing text', 10 + fraction * 60)
+      }
+    );
+    const { sourceType } = extracted;
+    if (extracted.image) {
+      signal.throwIfAborted();
+      // Word boxes are positions on the preprocessed image, the viewer has to show that one
+      await fileStore.saveFile(file.resultId, extracted.image);
+    }
+    report('analyzing', 70);
+
+    // Clean and preprocess the extracted text, page by page so page boundaries survive
+    const pages = extracted.pages?.map(page => ({
+      ...page,
+      text: cleanExtractedText(page.text, page.method === 'ocr' ? 'ocr' : sourceType)
+    }));
+    const extractedText = pages
+      ? pages.map(page => page.text).filter(text => text.length > 0).join('\n\n')
+      : cleanExtractedText(extracted.rawText, sourceType);
+
+    // Analyze the text for additional insights
+    const textAnalysis = analyzeText(extractedText, {
+      detectLanguage: true,
+      detectPII: true,
+      extractTopics: true
+    });
+    logger.debug(`Text analyzed: ${file.originalName}`, 'processing', {
+      language: textAnalysis.language,
+      containsPII: textAnalysis.containsPII
+    }, requestId);
+    report('saving', 90);
+
+    // Calculate metrics
+    const wordCount = countWords(extractedText);
+    const characterCount = extractedText.length;
+
+    const processingTime = Date.now() - file.startedAt;
+    signal.throwIfAborted();
+    const updated = await storage.updateFileProcessingResult(file.workspaceId, file.resultId, {
+      status: 'completed',
+      extractedText,
+      wordCount,
+      characterCount,
+      processingTime,
+      analysis: { version: TEXT_ANALYSIS_VERSION, ...textAnalysis },
+      metadata: {
+        ...file.metadata,
+        ...extracted.metadata,
+        ...(pages && { pages }),
+        completedAt: new Date().toISOString()
+      }
+    });
+    logger.debug(`Result saved: ${file.originalName}`, 'processing', { resultId: file.resultId, status: 'completed' }, requestId);
+    logger.logProcessingComplete(requestId, file.originalName, sourceType, wordCount, characterCount, processingTime);
+
+    file.stage = 'done';
+    return updated;
+  }
+
+  private async markFailed(file: QueuedFile, error: Error): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown processing error';
+
+    await storage.updateFileProcessingResult(file.workspaceId, file.resultId, {
+      status: 'failed',
+      processingTime: file.startedAt ? Date.now() - file.startedAt : null,
+      errorMessage,
+      metadata: {
+        ...file.metadata,
+        failedAt: new Date().toISOString(),
+        error: errorMessage
+      }
+    });
+    logger.debug(`Result saved: ${file.originalName}`, 'processing', { resultId: file.resultId, status: 'failed' }, file.requestId);
+  }
+
+  private logJobFinished(batch: UploadBatch): void {
+    const statistics = batch.processor.getBatchStatistics();
+    logger.logBatchProgress(batch.requestId, statistics.completed + statistics.failed, statistics.total);
+  }
+
+  private releaseBuffer(job: BatchJob): void {
+    (job.file as QueuedFile).buffer = undefined;
+  }
+
+  private trackWrite(batch: UploadBatch, write: Promise<void>): void {
+    const tracked = write
+      .catch(err => {
+        logger.error('Failed to record processing failure', 'processing', {
+          batchId: batch.id,
+          error: err instanceof Error ? err.message : 'Unknown error'
+        }, batch.requestId);
+      })
+      .finally(() => batch.pendingWrites.delete(tracked));
+    batch.pendingWrites.add(tracked);
+  }
+
+  private publish(batchId: string, event: BatchEvent): void {
+    this.events.emit(batchId, event);
+  }
+}
+
+function summarizeJob(job: BatchJob): BatchJobSummary {
+  const file = job.file as QueuedFile;
+  return {
+    id: job.id,
+    resultId: file.resultId,
+    fileName: file.originalName,
+    status: job.status,
+    progress: job.progress,
+    stage: job.status === 'failed' ? 'failed' : file.stage,
+    error: job.error
+  };
+}
+
+export const uploadQueue = new UploadQueue({
+  maxConcurrency: parseInt(process.env.UPLOAD_CONCURRENCY || '2', 10),
+  timeout: 2 * 60 * 1000 // OCR on large images can take well over the 30s default
+});
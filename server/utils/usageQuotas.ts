@@ -0,0 +1,78 @@
+import { storage } from '../storage';
+import type { QuotaStatus, UsageCounts, UsageMetric } from '@shared/schema';
+
+// Per workspace and UTC day
+export const DAILY_QUOTAS: UsageCounts = {
+  files: parseInt(process.env.QUOTA_FILES_PER_DAY || '500', 10),
+  bytes: parseInt(process.env.QUOTA_BYTES_PER_DAY || String(1024 * 1024 * 1024), 10),
+  ocrPages: parseInt(process.env.QUOTA_OCR_PAGES_PER_DAY || '1000', 10)
+};
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  files: 'files',
+  bytes: 'bytes',
+  ocrPages: 'OCR pages'
+};
+
+export class QuotaExceededError extends Error {
+  readonly retryAfter = secondsUntilReset(); // Seconds, sent as Retry-After
+
+  constructor(readonly metric: UsageMetric, limit: number) {
+    super(`The workspace has used its daily quota of ${limit} ${METRIC_LABELS[metric]}, it resets at midnight UTC`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export function usageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function nextReset(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+function secondsUntilReset(): number {
+  return Math.ceil((nextReset().getTime() - Date.now()) / 1000);
+}
+
+export async function getQuotaStatus(workspaceId: string): Promise<Record<UsageMetric, QuotaStatus>> {
+  const used = await storage.getUsage(workspaceId, usageDay());
+  const status = (metric: UsageMetric): QuotaStatus => ({
+    limit: DAILY_QUOTAS[metric],
+    used: used[metric],
+    remaining: Math.max(0, DAILY_QUOTAS[metric] - used[metric])
+  });
+  return { files: status('files'), bytes: status('bytes'), ocrPages: status('ocrPages') };
+}
+
+/**
+ * Throws a QuotaExceededError when adding the given amounts would go over a daily quota.
+ * Checking and recording are separate steps, so concurrent uploads can all pass the check
+ * and overshoot by up to a request each. OCR pages are charged with reserveOcrPage instead.
+ */
+export async function assertWithinQuota(workspaceId: string, counts: Partial<UsageCounts>): Promise<void> {
+  const status = await getQuotaStatus(workspaceId);
+  for (const metric of Object.keys(counts) as UsageMetric[]) {
+    if ((counts[metric] ?? 0) > status[metric].remaining) {
+      throw new QuotaExceededError(metric, status[metric].limit);
+    }
+  }
+}
+
+/**
+ * Charges one OCR page before it is recognized, or throws a QuotaExceededError when none are left.
+ * The page is counted first and given back if that went over the limit, so concurrent jobs cannot
+ * recognize more pages than the quota between them.
+ */
+export async function reserveOcrPage(workspaceId: string): Promise<void> {
+  const day = usageDay();
+  const usage = await storage.addUsage(workspaceId, day, { ocrPages: 1 });
+  if (usage.ocrPages > DAILY_QUOTAS.ocrPages) {
+    await storage.addUsage(workspaceId, day, { ocrPages: -1 });
+    throw new QuotaExceededError('ocrPages', DAILY_QUOTAS.ocrPages);
+  }
+}
+
+export async function recordUsage(workspaceId: string, counts: Partial<UsageCounts>): Promise<UsageCounts> {
+  return storage.addUsage(workspaceId, usageDay(), counts);
+}
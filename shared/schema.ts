@@ -1,43 +1,489 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, date, boolean, integer, bigint, bigserial, json, jsonb, real, index, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Bump when the shape of the stored analysis changes so older rows can be told apart
+export const TEXT_ANALYSIS_VERSION = 1;
+
+export const textAnalysisSchema = z.object({
+  version: z.number().int().positive(),
+  wordCount: z.number().int().nonnegative(),
+  characterCount: z.number().int().nonnegative(),
+  sentenceCount: z.number().int().nonnegative(),
+  paragraphCount: z.number().int().nonnegative(),
+  language: z.string().optional(),
+  readabilityScore: z.number().optional(),
+  containsPII: z.boolean().optional(),
+  topics: z.array(z.string()).optional(),
+});
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Server operators read and clear the server-wide logs, granted with `npm run operator`, never through the API
+  isOperator: boolean("is_operator").default(false).notNull(),
+});
+
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Roles a member can have in a workspace, from least to most privileged
+export const WORKSPACE_ROLES = ['viewer', 'analyst', 'admin'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+// Roles are ordered, each one can do everything the ones before it can
+export const hasWorkspaceRole = (role: WorkspaceRole, required: WorkspaceRole): boolean =>
+  WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(required);
+
+export const workspaceMemberships = pgTable("workspace_memberships", {
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").$type<WorkspaceRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.workspaceId, table.userId] }),
+  index("workspace_memberships_user_id_idx").on(table.userId),
+]);
+
+// What an API key may be used for
+export const API_KEY_SCOPES = ['upload', 'read', 'delete'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Keys act as their user in the workspace they were created in. Only a hash of the key is kept
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // Start of the key, enough to recognise it in a list
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => [
+  index("api_keys_user_id_idx").on(table.userId),
+]);
+
+// Full-text search document of a result, stemmed with the language its analysis detected. Searches
+// have to use this same expression for the GIN index to apply
+export const resultSearchDocument = (table: { extractedText: AnyPgColumn; analysis: AnyPgColumn }): SQL =>
+  sql`to_tsvector(CASE ${table.analysis}->>'language' WHEN 'es' THEN 'spanish'::regconfig WHEN 'fr' THEN 'french'::regconfig ELSE 'english'::regconfig END, coalesce(${table.extractedText}, ''))`;
+
 export const fileProcessingResults = pgTable("file_processing_results", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   filename: text("filename").notNull(),
   originalName: text("original_name").notNull(),
   fileSize: integer("file_size").notNull(),
   mimeType: text("mime_type").notNull(),
-  status: text("status").notNull(), // 'processing', 'completed', 'failed'
+  status: text("status").notNull(), // 'pending', 'processing', 'completed', 'failed'
   extractedText: text("extracted_text"),
   wordCount: integer("word_count"),
   characterCount: integer("character_count"),
   processingTime: integer("processing_time"), // in milliseconds
   errorMessage: text("error_message"),
   metadata: jsonb("metadata"), // Additional file metadata
+  analysis: jsonb("analysis").$type<TextAnalysis>(), // Output of analyzeText(), see textAnalysisSchema
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "set null" }), // Null for uploads from before accounts
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("file_processing_results_search_idx").using("gin", resultSearchDocument(table)),
+  index("file_processing_results_workspace_id_idx").on(table.workspaceId, table.createdAt),
+]);
+
+// What a workspace used on one UTC day, checked against the daily upload quotas
+export const usageCounters = pgTable("usage_counters", {
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  day: date("day", { mode: "string" }).notNull(), // YYYY-MM-DD
+  files: integer("files").default(0).notNull(),
+  bytes: bigint("bytes", { mode: "number" }).default(0).notNull(),
+  ocrPages: integer("ocr_pages").default(0).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.workspaceId, table.day] }),
+]);
+
+export const AUDIT_ACTIONS = ['result.upload', 'result.view', 'result.export', 'result.edit', 'result.delete', 'results.export', 'results.delete'] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Append only, entries are chained by hash in id order. No foreign keys, so deleting a user, workspace
+// or result cannot cascade into the trail
+export const auditLog = pgTable("audit_log", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  timestamp: timestamp("timestamp", { precision: 3 }).notNull(),
+  workspaceId: varchar("workspace_id").notNull(),
+  actorId: varchar("actor_id").notNull(),
+  actorName: text("actor_name").notNull(), // Username at the time, accounts can be deleted
+  apiKeyId: varchar("api_key_id"), // Set when the actor used an API key
+  action: text("action").$type<AuditAction>().notNull(),
+  resultId: varchar("result_id"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull(),
+}, (table) => [
+  index("audit_log_workspace_id_timestamp_idx").on(table.workspaceId, table.timestamp),
+  index("audit_log_result_id_idx").on(table.resultId),
+]);
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const logEntries = pgTable("log_entries", {
+  id: varchar("id").primaryKey(),
+  timestamp: timestamp("timestamp", { precision: 3 }).notNull(),
+  level: text("level").notNull(), // 'debug', 'info', 'warn', 'error'
+  category: text("category").notNull(),
+  message: text("message").notNull(),
+  metadata: jsonb("metadata"),
+  duration: real("duration"), // in milliseconds
+  requestId: text("request_id"),
+  userId: text("user_id"),
+}, (table) => [
+  index("log_entries_timestamp_idx").on(table.timestamp),
+  index("log_entries_request_id_idx").on(table.requestId),
+]);
+
+// Express sessions, read and written by connect-pg-simple in the layout it expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8).max(256),
+}).pick({
   username: true,
   password: true,
 });
 
-export const insertFileProcessingResultSchema = createInsertSchema(fileProcessingResults).omit({
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+});
+
+export const insertFileProcessingResultSchema = createInsertSchema(fileProcessingResults, {
+  analysis: textAnalysisSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export type TextAnalysis = z.infer<typeof textAnalysisSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, 'password'>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMembership = typeof workspaceMemberships.$inferSelect;
+
+// A workspace as one of its members sees it
+export interface UserWorkspace extends Workspace {
+  role: WorkspaceRole;
+  current?: boolean; // The workspace requests are scoped to
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  username: string;
+  role: WorkspaceRole;
+  createdAt: Date;
+}
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+// Returned once on creation, the key itself cannot be read back later
+export interface CreatedApiKey extends PublicApiKey {
+  key: string;
+}
 export type InsertFileProcessingResult = z.infer<typeof insertFileProcessingResultSchema>;
 export type FileProcessingResult = typeof fileProcessingResults.$inferSelect;
+
+// File type filter of the results list, mapped to mime types by the storage backends
+export const RESULT_FILE_TYPES = ['pdf', 'image', 'docx', 'txt'] as const;
+export type ResultFileType = typeof RESULT_FILE_TYPES[number];
+
+export const RESULT_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+
+// Filters shared by the results list and the spreadsheet exports
+export interface ResultFilters {
+  status?: typeof RESULT_STATUSES[number];
+  type?: ResultFileType;
+  mimeType?: string; // Exact, or a prefix such as image/*
+  from?: Date; // Uploaded at or after
+  to?: Date; // Uploaded at or before
+  language?: string; // Detected language of the analysis, e.g. en
+  hasPII?: boolean;
+  q?: string; // Case-insensitive match in the file name or extracted text
+}
+
+export const RESULT_SORT_FIELDS = ['createdAt', 'originalName', 'fileSize', 'wordCount', 'processingTime', 'status'] as const;
+export type ResultSortField = typeof RESULT_SORT_FIELDS[number];
+
+export interface ResultQuery extends ResultFilters {
+  sort?: ResultSortField; // createdAt by default
+  order?: 'asc' | 'desc'; // desc by default
+  limit?: number;
+  offset?: number;
+}
+
+// One page of GET /api/results
+export interface ResultPage {
+  results: FileProcessingResult[];
+  total: number; // Matching results across all pages
+  limit: number;
+  offset: number;
+  nextOffset?: number; // Missing on the last page
+}
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+// What callers record, the storage assigns the id and chains the hashes
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'prevHash' | 'hash'>;
+
+export interface AuditFilters {
+  action?: AuditAction;
+  actorId?: string;
+  resultId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+// One page of GET /api/audit, newest first
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset?: number;
+}
+
+// GET /api/audit/verify
+export interface AuditVerification {
+  valid: boolean;
+  checked: number; // Entries whose hashes were recomputed
+  brokenAt?: number; // Id of the first entry that does not match its hash or its predecessor
+}
+
+// Counted per workspace and UTC day
+export const USAGE_METRICS = ['files', 'bytes', 'ocrPages'] as const;
+export type UsageMetric = typeof USAGE_METRICS[number];
+export type UsageCounts = Record<UsageMetric, number>;
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+// GET /api/usage
+export interface UsageResponse {
+  day: string;
+  resetsAt: string; // Next UTC midnight
+  quotas: Record<UsageMetric, QuotaStatus>;
+  rateLimits: Record<string, { limit: number; remaining: number; resetSeconds: number }>; // By limiter name
+}
+
+// Full-text search over extracted text, offsets count UTF-16 code units like String.slice
+export interface SearchMatch {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string; // Excerpt with whitespace flattened to spaces
+  start: number; // Offsets of the excerpt in the extracted text
+  end: number;
+  highlights: SearchMatch[]; // Relative to the excerpt
+}
+
+export interface SearchHit {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  createdAt: Date;
+  score: number;
+  matches: SearchMatch[]; // In the extracted text, the first hundred
+  snippets: SearchSnippet[];
+}
+
+export interface SearchResponse {
+  query: string;
+  hits: SearchHit[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset?: number;
+}
+
+// Upload batch progress, kept in memory by the upload queue and streamed to the client
+export type BatchJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface BatchJobSummary {
+  id: string;
+  resultId: string;
+  fileName: string;
+  status: BatchJobStatus;
+  progress: number; // 0-100
+  stage?: string;
+  error?: string;
+}
+
+export interface BatchStatistics {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  averageProcessingTime: number;
+  totalProcessingTime: number;
+}
+
+export interface BatchStatus {
+  id: string;
+  status: 'processing' | 'completed';
+  createdAt: string;
+  completedAt?: string;
+  statistics: BatchStatistics;
+  jobs: BatchJobSummary[];
+}
+
+export type BatchEvent =
+  | { type: 'progress'; job: BatchJobSummary; overall: { completed: number; total: number; percentage: number } }
+  | { type: 'jobComplete'; job: BatchJobSummary }
+  | { type: 'jobError'; job: BatchJobSummary }
+  | { type: 'batchComplete'; statistics: BatchStatistics };
+
+// Operational log entries, produced by the server logger and shown in the admin log viewer
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const; // Lowest first
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogEntry {
+  id: string;
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  category: string;
+  metadata?: Record<string, any>;
+  duration?: number;
+  requestId?: string;
+  userId?: string;
+}
+
+// Paged documents keep their page boundaries in result metadata (metadata.pages / metadata.document)
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  method?: 'text' | 'ocr'; // Text layer, or OCR of the rendered page for scanned pages
+  confidence?: number; // OCR confidence from 0 to 100
+  error?: string; // Why OCR of the page failed, the page is kept empty
+  languages?: string; // OCR languages used for the page, e.g. eng+spa
+}
+
+// A recognized word, the box is in pixels of the uploaded image
+export interface OCRWord {
+  text: string;
+  confidence: number; // 0 to 100
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+  paragraph: number; // Paragraph and line indexes across the whole image
+  line: number;
+  edited?: boolean; // Corrected by a user
+}
+
+// Orientation and script detection of automatic language mode
+export interface OCRScriptDetection {
+  script: string | null;
+  confidence: number | null;
+  orientation: number | null; // Degrees the image is rotated
+}
+
+export type PreprocessingStepName =
+  | 'grayscale'
+  | 'exifRotate'
+  | 'invert'
+  | 'upscale'
+  | 'normalize'
+  | 'osdRotate'
+  | 'deskew'
+  | 'binarize';
+
+export interface PreprocessingStep {
+  name: PreprocessingStepName;
+  detail?: string; // What the step measured or changed, e.g. the skew angle
+}
+
+// Image cleanup tried when the first recognition pass had low confidence
+export interface OCRPreprocessing {
+  steps: PreprocessingStep[];
+  confidenceBefore: number;
+  confidenceAfter?: number; // Missing when preprocessing failed
+  used: 'original' | 'preprocessed'; // The pass with the higher confidence is kept
+  error?: string;
+}
+
+export interface DocumentInfo {
+  pageCount: number;
+  title?: string;
+  author?: string;
+  subject?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: string;
+  modificationDate?: string;
+}
+
+// Run of text in a structured document, links keep their target
+export interface DocumentInline {
+  text: string;
+  href?: string; // External URL, or #id of a note for note references
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type DocumentBlock =
+  | { type: 'heading'; level: number; content: DocumentInline[] }
+  | { type: 'paragraph'; content: DocumentInline[] }
+  | { type: 'list'; ordered: boolean; items: DocumentBlock[][] } // Each item's blocks, nested lists included
+  | { type: 'table'; rows: string[][] } // Header rows first
+  | { type: 'image'; altText?: string; text?: string; confidence?: number; error?: string }; // Text when OCR'd
+
+export interface DocumentNote {
+  id: string; // Anchor the note references link to
+  kind: 'footnote' | 'endnote' | 'comment';
+  label?: string; // e.g. "Comment [AB1]"
+  text: string;
+}
+
+// Layout of a DOCX upload
+export interface DocumentStructure {
+  outline: Array<{ level: number; text: string; block: number }>; // Headings and their index in blocks
+  blocks: DocumentBlock[];
+  links: Array<{ text: string; href: string }>;
+  notes: DocumentNote[];
+}
+
+// Known keys of fileProcessingResults.metadata
+export interface ResultMetadata {
+  uploadedAt?: string;
+  completedAt?: string;
+  failedAt?: string;
+  error?: string;
+  pageSelection?: string;
+  document?: DocumentInfo;
+  pages?: ExtractedPage[];
+  ocrConfidence?: number; // Image uploads, per page confidence of scanned PDFs is on pages
+  languageSelection?: string; // Requested OCR languages, e.g. eng+spa or auto
+  ocrLanguages?: string; // Languages the image was recognized with
+  ocrScript?: OCRScriptDetection;
+  ocrWords?: OCRWord[];
+  ocrPreprocessing?: OCRPreprocessing;
+  structure?: DocumentStructure;
+  [key: string]: unknown;
+}
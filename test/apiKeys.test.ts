@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { createApp, registerAgent } from './helpers/app';
+
+type Agent = Awaited<ReturnType<typeof registerAgent>>['agent'];
+
+describe('API keys', () => {
+  let app: Express;
+  let owner: Agent;
+
+  // Creates a key in the owner's workspace and returns its id and the key itself
+  async function createKey(scopes: string[]): Promise<{ id: string; key: string }> {
+    const response = await owner.post('/api/api-keys').send({ name: scopes.join('+'), scopes }).expect(201);
+    return { id: response.body.id, key: response.body.key };
+  }
+
+  const withKey = (key: string) => (path: string) => request(app).get(path).set('Authorization', `Bearer ${key}`);
+
+  beforeAll(async () => {
+    app = await createApp();
+    ({ agent: owner } = await registerAgent(app, 'api-key-owner'));
+  });
+
+  it('reads results with the read scope', async () => {
+    const { key } = await createKey(['read']);
+    await withKey(key)('/api/results').expect(200);
+  });
+
+  it('answers 403 when the key lacks the scope of the route', async () => {
+    const { key } = await createKey(['upload']);
+    const response = await withKey(key)('/api/results').expect(403);
+    expect(response.body).toEqual({ message: 'Forbidden', error: 'API key needs the read scope' });
+  });
+
+  it('answers 403 on routes keys cannot use', async () => {
+    const { key } = await createKey(['upload', 'read', 'delete']);
+    const response = await withKey(key)('/api/api-keys').expect(403);
+    expect(response.body).toEqual({ message: 'Forbidden', error: 'This endpoint cannot be used with an API key' });
+  });
+
+  it('answers 401 once the key is revoked', async () => {
+    const { id, key } = await createKey(['read']);
+    await owner.delete(`/api/api-keys/${id}`).expect(204);
+    const response = await withKey(key)('/api/results').expect(401);
+    expect(response.body).toEqual({ message: 'Invalid API key' });
+  });
+});
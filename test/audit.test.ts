@@ -0,0 +1,71 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Express } from 'express';
+import { storage } from '../server/storage';
+import { createApp, registerAgent } from './helpers/app';
+
+type Agent = Awaited<ReturnType<typeof registerAgent>>['agent'];
+
+describe('audit trail of deletes', () => {
+  let app: Express;
+  let admin: Agent;
+
+  async function upload(name = 'notes.txt'): Promise<string> {
+    const response = await admin
+      .post('/api/upload')
+      .attach('files', Buffer.from('Quarterly numbers look good.\n'), { filename: name, contentType: 'text/plain' })
+      .expect(202);
+    return response.body.results[0].id;
+  }
+
+  async function deleteEntries(resultId: string) {
+    const response = await admin.get('/api/audit').query({ action: 'result.delete', resultId }).expect(200);
+    return response.body.entries;
+  }
+
+  beforeAll(async () => {
+    app = await createApp();
+    ({ agent: admin } = await registerAgent(app, 'audit-admin'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records a delete', async () => {
+    const id = await upload();
+    await admin.delete(`/api/results/${id}`).expect(200);
+    expect(await deleteEntries(id)).toMatchObject([{ resultId: id, details: { name: 'notes.txt' } }]);
+  });
+
+  it('keeps the result when the delete cannot be recorded', async () => {
+    const id = await upload();
+    vi.spyOn(storage, 'appendAuditEntry').mockRejectedValueOnce(new Error('audit store down'));
+
+    const response = await admin.delete(`/api/results/${id}`).expect(500);
+    expect(response.body).toEqual({ message: 'Failed to delete result', error: 'audit store down' });
+    await admin.get(`/api/results/${id}`).expect(200);
+    expect(await deleteEntries(id)).toEqual([]);
+  });
+
+  it('records clearing the workspace as one entry, or keeps every result when it cannot be recorded', async () => {
+    const ids = [await upload('a.txt'), await upload('b.txt')];
+    vi.spyOn(storage, 'appendAuditEntry').mockRejectedValueOnce(new Error('audit store down'));
+
+    await admin.delete('/api/results').expect(500);
+    for (const id of ids) {
+      await admin.get(`/api/results/${id}`).expect(200);
+    }
+
+    await admin.delete('/api/results').expect(200);
+    for (const id of ids) {
+      await admin.get(`/api/results/${id}`).expect(404);
+    }
+    const { entries } = (await admin.get('/api/audit').query({ action: 'results.delete' }).expect(200)).body;
+    expect(entries).toHaveLength(1);
+    expect(entries[0].details.count).toBeGreaterThanOrEqual(2);
+    expect(entries[0].details.results).toEqual(expect.arrayContaining([
+      { id: ids[0], name: 'a.txt' },
+      { id: ids[1], name: 'b.txt' }
+    ]));
+  });
+});
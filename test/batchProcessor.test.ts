@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { BatchProcessor } from '../server/utils/batchProcessor';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('BatchProcessor', () => {
+  it('aborts the signal of an attempt that times out', async () => {
+    const processor = new BatchProcessor({ timeout: 20, retryAttempts: 0 });
+    processor.addJob('slow', {});
+
+    const writes: string[] = [];
+    let attemptSignal: AbortSignal | undefined;
+    await processor.processBatch(async (_file, _updateProgress, signal) => {
+      attemptSignal = signal;
+      await sleep(60);
+      if (!signal.aborted) writes.push('result');
+    });
+
+    expect(processor.getJobStatus('slow')?.status).toBe('failed');
+    expect(processor.getJobStatus('slow')?.error).toBe('Processing timeout after 20ms');
+    expect(attemptSignal?.aborted).toBe(true);
+    expect(attemptSignal?.reason).toBeInstanceOf(Error);
+    await sleep(60);
+    expect(writes).toEqual([]);
+  });
+
+  it('gives every attempt its own signal', async () => {
+    const processor = new BatchProcessor({ timeout: 1000, retryAttempts: 1 });
+    processor.addJob('flaky', {});
+
+    const signals: AbortSignal[] = [];
+    await processor.processBatch(async (_file, _updateProgress, signal) => {
+      signals.push(signal);
+      if (signals.length === 1) throw new Error('first attempt fails');
+      return 'ok';
+    });
+
+    expect(processor.getJobStatus('flaky')?.status).toBe('completed');
+    expect(signals).toHaveLength(2);
+    expect(signals[0]).not.toBe(signals[1]);
+    expect(signals.some(signal => signal.aborted)).toBe(false);
+  });
+});
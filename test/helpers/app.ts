@@ -0,0 +1,21 @@
+import express from 'express';
+import request from 'supertest';
+import { registerRoutes } from '../../server/routes';
+import { requestId } from '../../server/middleware/requestId';
+
+// The API as server/index.ts sets it up, without Vite and without listening on a port
+export async function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use(requestId);
+  await registerRoutes(app);
+  return app;
+}
+
+// An agent keeps the session cookie of the account it registered
+export async function registerAgent(app: express.Express, username: string) {
+  const agent = request.agent(app);
+  const response = await agent.post('/api/register').send({ username, password: 'password123' }).expect(201);
+  return { agent, user: response.body as { id: string; username: string } };
+}
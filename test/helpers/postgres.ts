@@ -0,0 +1,41 @@
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { createDatabase, type Database } from '../../server/db';
+
+export interface TestDatabase {
+  db: Database;
+  close(): Promise<void>;
+}
+
+/**
+ * A migrated Postgres for DatabaseStorage. TEST_DATABASE_URL points at a real, throwaway one;
+ * without it an in-process PGlite is served over the wire protocol, so both go through the
+ * node-postgres driver createDatabase picks for non-Neon hosts.
+ */
+export async function startTestDatabase(): Promise<TestDatabase> {
+  let url = process.env.TEST_DATABASE_URL;
+  let stopServer = async () => {};
+  if (!url) {
+    const lite = await PGlite.create();
+    // Connections share PGlite's one session, which is fine while tests run one query at a time
+    const server = new PGLiteSocketServer({ db: lite, host: '127.0.0.1', port: 0, maxConnections: 10 });
+    await server.start();
+    url = `postgres://postgres@${server.getServerConn()}/postgres`;
+    stopServer = async () => {
+      await server.stop();
+      await lite.close();
+    };
+  }
+
+  const db = createDatabase(url);
+  await migrate(db as Parameters<typeof migrate>[0], { migrationsFolder: path.resolve(import.meta.dirname, '../../migrations') });
+  return {
+    db,
+    async close() {
+      await db.$client.end();
+      await stopServer();
+    }
+  };
+}
@@ -0,0 +1,80 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Express } from 'express';
+import { storage } from '../server/storage';
+import { encodeCursor, parseLogQuery } from '../server/utils/logSinks';
+import { createApp, registerAgent } from './helpers/app';
+
+type Agent = Awaited<ReturnType<typeof registerAgent>>['agent'];
+
+describe('parseLogQuery', () => {
+  it('reads every filter', () => {
+    const cursor = encodeCursor({ id: 'a1', timestamp: '2026-01-02T03:04:05.000Z', level: 'info', message: 'm', category: 'c' });
+    expect(parseLogQuery({
+      level: 'warn',
+      category: 'upload',
+      requestId: 'req-1',
+      since: '2026-01-01',
+      until: '2026-01-02',
+      limit: '25',
+      cursor
+    })).toEqual({
+      level: 'warn',
+      category: 'upload',
+      requestId: 'req-1',
+      since: new Date('2026-01-01T00:00:00.000Z'),
+      until: new Date('2026-01-02T23:59:59.999Z'),
+      limit: 25,
+      cursor
+    });
+  });
+
+  it('leaves out what is not given', () => {
+    expect(parseLogQuery({ level: '', limit: ' ' })).toEqual({});
+  });
+
+  it.each([
+    [{ level: 'verbose' }, "Unknown level 'verbose'. Use debug, info, warn, error"],
+    [{ since: 'yesterday' }, "Invalid 'since' date 'yesterday'"],
+    [{ until: '2026-13-45' }, "Invalid 'until' date '2026-13-45'"],
+    [{ limit: '0' }, "Invalid limit '0'"],
+    [{ limit: 'ten' }, "Invalid limit 'ten'"],
+    [{ cursor: 'not-a-cursor' }, 'Invalid log cursor']
+  ])('refuses %j', (query, message) => {
+    expect(() => parseLogQuery(query)).toThrow(message);
+  });
+});
+
+describe('log routes', () => {
+  let operator: Agent;
+
+  beforeAll(async () => {
+    const app: Express = await createApp();
+    const registered = await registerAgent(app, 'logs-operator');
+    operator = registered.agent;
+    await storage.setOperator(registered.user.id, true);
+  });
+
+  it('answers 400 for a malformed cursor instead of failing the query', async () => {
+    const response = await operator.get('/api/logs').query({ cursor: 'garbage' }).expect(400);
+    expect(response.body).toEqual({ message: 'Invalid log query', error: 'Invalid log cursor' });
+  });
+
+  it('answers 400 for unknown levels on the list and the live tail', async () => {
+    for (const path of ['/api/logs', '/api/logs/stream']) {
+      const response = await operator.get(path).query({ level: 'loud' }).expect(400);
+      expect(response.body).toEqual({ message: 'Invalid log query', error: "Unknown level 'loud'. Use debug, info, warn, error" });
+    }
+  });
+
+  it('answers 400 for a bad since on the stats', async () => {
+    const response = await operator.get('/api/logs/stats').query({ since: 'soon' }).expect(400);
+    expect(response.body).toEqual({ message: 'Invalid log query', error: "Invalid 'since' date 'soon'" });
+  });
+
+  it('pages through the logs with the cursor it hands out', async () => {
+    const first = await operator.get('/api/logs').query({ limit: '1' }).expect(200);
+    expect(first.body.logs).toHaveLength(1);
+    const second = await operator.get('/api/logs').query({ limit: '1', cursor: first.body.nextCursor }).expect(200);
+    expect(second.body.logs[0].id).not.toBe(first.body.logs[0].id);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { LogEntry } from '@shared/schema';
+import { DatabaseLogSink, FileLogSink } from '../server/utils/logSinks';
+import { startTestDatabase, type TestDatabase } from './helpers/postgres';
+
+function entry(message: string): LogEntry {
+  return { id: randomUUID(), timestamp: new Date().toISOString(), level: 'info', message, category: 'test' };
+}
+
+describe('FileLogSink', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'log-sink-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('clears the current file and the archives, and keeps logging afterwards', async () => {
+    const sink = new FileLogSink({ directory, maxBytes: 200 });
+    for (let i = 0; i < 5; i++) {
+      sink.write(entry(`before ${i}`));
+    }
+    await new Promise(resolve => setTimeout(resolve, 200)); // Rotation and compression run in the background
+    expect(fs.readdirSync(directory).length).toBeGreaterThan(1);
+
+    await sink.clear();
+    expect((await sink.query({})).entries).toEqual([]);
+    expect(fs.readdirSync(directory)).toEqual(['app.log']);
+
+    sink.write(entry('after'));
+    await sink.close();
+    const after = await sink.query({});
+    expect(after.entries.map(logged => logged.message)).toEqual(['after']);
+  });
+});
+
+describe('DatabaseLogSink', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  it('deletes stored and buffered entries', async () => {
+    const sink = new DatabaseLogSink(database.db, { batchSize: 100, flushIntervalMs: 60000 });
+    sink.write(entry('stored'));
+    await sink.flush();
+    sink.write(entry('buffered'));
+
+    await sink.clear();
+    expect((await sink.query({})).entries).toEqual([]);
+
+    sink.write(entry('after'));
+    expect((await sink.query({})).entries.map(logged => logged.message)).toEqual(['after']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { correctOCRText } from '../server/utils/ocrCorrection';
+import { cleanOCROutput } from '../server/utils/ocrParser';
+import { extractHashtags, extractMentions } from '../server/utils/textProcessor';
+import corpus from './fixtures/ocr-corpus.json';
+
+// Tesseract output of rendered samples, and hand-made misreads, with the text correction should give
+interface CorpusCase {
+  name: string;
+  source: string;
+  ocr: string;
+  expected: string;
+}
+
+describe('correctOCRText', () => {
+  it.each(corpus as CorpusCase[])('$name ($source)', ({ ocr, expected }) => {
+    expect(correctOCRText(ocr)).toBe(expected);
+  });
+
+  it('leaves corrected text as it is', () => {
+    for (const { expected } of corpus as CorpusCase[]) {
+      expect(correctOCRText(expected)).toBe(expected);
+    }
+  });
+});
+
+describe('cleanOCROutput', () => {
+  it('keeps the symbols of handles, hashtags, URLs, prices and percentages in English', () => {
+    const text = 'Thanks @jane_doe! #OpenSource https://example.com/a?b=1&c=2 costs $12.50, 8% + tax = ok';
+    expect(cleanOCROutput(text, 'eng')).toBe(text);
+  });
+
+  it('drops other symbols in English only', () => {
+    expect(cleanOCROutput('a ~b^ c*', 'eng')).toBe('a b c');
+    expect(cleanOCROutput('año ~b^', 'spa')).toBe('año ~b^');
+  });
+
+  it('leaves hashtags and mentions for the spreadsheet columns', () => {
+    const text = correctOCRText(cleanOCROutput('Follow #OpenSource and @jane_doe', 'eng'));
+    expect(extractHashtags(text)).toEqual(['#OpenSource']);
+    expect(extractMentions(text)).toEqual(['@jane_doe']);
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Express } from 'express';
+import type { OCRWord } from '@shared/schema';
+import { storage } from '../server/storage';
+import { createApp, registerAgent } from './helpers/app';
+
+type Agent = Awaited<ReturnType<typeof registerAgent>>['agent'];
+
+function word(text: string, line: number, x0: number): OCRWord {
+  return { text, confidence: 80, bbox: { x0, y0: line * 20, x1: x0 + 40, y1: line * 20 + 16 }, paragraph: 0, line };
+}
+
+describe('correcting an OCR word', () => {
+  let admin: Agent;
+  let workspaceId: string;
+
+  beforeAll(async () => {
+    const app: Express = await createApp();
+    ({ agent: admin } = await registerAgent(app, 'ocr-words-admin'));
+    [{ id: workspaceId }] = (await admin.get('/api/workspaces').expect(200)).body;
+  });
+
+  function createResult(words: OCRWord[], ocrLanguages = 'eng') {
+    return storage.createFileProcessingResult({
+      filename: 'scan.png',
+      originalName: 'scan.png',
+      fileSize: 100,
+      mimeType: 'image/png',
+      status: 'completed',
+      extractedText: null,
+      wordCount: null,
+      characterCount: null,
+      processingTime: null,
+      errorMessage: null,
+      metadata: { ocrLanguages, ocrWords: words },
+      workspaceId
+    });
+  }
+
+  it('cleans the rebuilt text like an upload and counts its words the same way', async () => {
+    const result = await createResult([word('A', 0, 0), word('rnodern', 0, 50), word('desigm', 0, 100)]);
+
+    const response = await admin.patch(`/api/results/${result.id}/ocr-words/2`).send({ text: 'design' }).expect(200);
+
+    expect(response.body.extractedText).toBe('A modern design');
+    expect(response.body.wordCount).toBe(3);
+    expect(response.body.characterCount).toBe('A modern design'.length);
+    expect(response.body.metadata.ocrWords[2]).toMatchObject({ text: 'design', edited: true });
+  });
+
+  it('strips the characters an upload strips for the stored languages', async () => {
+    const result = await createResult([word('Total', 0, 0), word('~42~', 0, 50), word('€', 0, 100), word('tax', 0, 150)]);
+    const response = await admin.patch(`/api/results/${result.id}/ocr-words/3`).send({ text: 'fees' }).expect(200);
+    expect(response.body.extractedText).toBe('Total 42 fees');
+    expect(response.body.wordCount).toBe(3);
+
+    const spanish = await createResult([word('año', 0, 0), word('~42~', 0, 50)], 'spa');
+    const kept = await admin.patch(`/api/results/${spanish.id}/ocr-words/0`).send({ text: 'años' }).expect(200);
+    expect(kept.body.extractedText).toBe('años ~42~');
+  });
+
+  it('keeps edited words exactly as typed', async () => {
+    const result = await createResult([word('he11o', 0, 0), word('rnodern', 0, 50)]);
+    await admin.patch(`/api/results/${result.id}/ocr-words/0`).send({ text: 'He11o' }).expect(200);
+    const response = await admin.patch(`/api/results/${result.id}/ocr-words/1`).send({ text: 'rnodern' }).expect(200);
+    expect(response.body.extractedText).toBe('He11o rnodern');
+  });
+
+  it('answers 400 for indexes that are not whole numbers', async () => {
+    const result = await createResult([word('one', 0, 0), word('two', 0, 50)]);
+    for (const index of ['1abc', '-1', '1.0']) {
+      const response = await admin.patch(`/api/results/${result.id}/ocr-words/${index}`).send({ text: 'x' }).expect(400);
+      expect(response.body).toEqual({ message: 'Invalid word', error: `Invalid word index '${index}'` });
+    }
+    await admin.patch(`/api/results/${result.id}/ocr-words/5`).send({ text: 'x' }).expect(404);
+  });
+});
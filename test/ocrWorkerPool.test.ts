@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Fake tesseract workers whose jobs settle when the test says so
+interface FakeWorker {
+  jobs: Array<{ image: Buffer; resolve: (text: string) => void; reject: (error: string) => void }>;
+  terminated: boolean;
+  reportError: (error: string) => void;
+}
+
+const fakes = vi.hoisted(() => ({ workers: [] as FakeWorker[], failStarts: 0 }));
+
+vi.mock('tesseract.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('tesseract.js')>();
+  return {
+    ...actual,
+    createWorker: async (_langs: string, _oem: number, options: { errorHandler: (error: string) => void }) => {
+      if (fakes.failStarts > 0) {
+        fakes.failStarts--;
+        throw new Error('worker failed to start');
+      }
+      const fake: FakeWorker = { jobs: [], terminated: false, reportError: options.errorHandler };
+      fakes.workers.push(fake);
+      return {
+        setParameters: async () => ({}),
+        reinitialize: async () => ({}),
+        terminate: async () => {
+          fake.terminated = true;
+          return {};
+        },
+        detect: async () => ({ data: {} }),
+        // Like tesseract.js, a rejected job also goes to the error handler
+        recognize: (image: Buffer) => new Promise((resolve, reject) => {
+          fake.jobs.push({
+            image,
+            resolve: text => resolve({ data: { text } }),
+            reject: error => {
+              reject(error);
+              fake.reportError(error);
+            }
+          });
+        })
+      };
+    }
+  };
+});
+
+const { OCRWorkerPool } = await import('../server/utils/ocrWorkerPool');
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createPool(overrides: { size?: number; jobTimeout?: number } = {}) {
+  return new OCRWorkerPool({ size: 2, maxQueue: 10, shutdownTimeout: 1000, jobTimeout: 60000, ...overrides });
+}
+
+describe('OCRWorkerPool', () => {
+  beforeEach(() => {
+    fakes.workers = [];
+    fakes.failStarts = 0;
+  });
+
+  it('runs jobs in arrival order and reports exact busy and queued counts', async () => {
+    const pool = createPool();
+    const results = ['a', 'b', 'c', 'd'].map(name => pool.recognize(Buffer.from(name)));
+    await tick();
+
+    expect(pool.getMetrics()).toMatchObject({ status: 'ready', workers: 2, busy: 2, queued: 2 });
+    expect(fakes.workers.map(worker => worker.jobs[0].image.toString())).toEqual(['a', 'b']);
+
+    fakes.workers[1].jobs[0].resolve('B');
+    await tick();
+    expect(pool.getMetrics()).toMatchObject({ busy: 2, queued: 1 });
+    expect(fakes.workers[1].jobs[1].image.toString()).toBe('c');
+
+    fakes.workers[0].jobs[0].resolve('A');
+    await tick();
+    expect(fakes.workers[0].jobs[1].image.toString()).toBe('d');
+    fakes.workers[0].jobs[1].resolve('D');
+    fakes.workers[1].jobs[1].resolve('C');
+
+    expect((await Promise.all(results)).map(data => data.text)).toEqual(['A', 'B', 'C', 'D']);
+    expect(pool.getMetrics()).toMatchObject({ busy: 0, queued: 0, completed: 4, failed: 0 });
+  });
+
+  it('replaces a worker that reports an error after startup', async () => {
+    const pool = createPool({ size: 1 });
+    const failing = pool.recognize(Buffer.from('bad'));
+    const next = pool.recognize(Buffer.from('next'));
+    await tick();
+
+    const [original] = fakes.workers;
+    original.jobs[0].reject('RuntimeError: Aborted()');
+    await expect(failing).rejects.toThrow('RuntimeError: Aborted()');
+    await tick();
+
+    expect(original.terminated).toBe(true);
+    expect(fakes.workers).toHaveLength(2);
+    expect(fakes.workers[1].jobs[0].image.toString()).toBe('next');
+    fakes.workers[1].jobs[0].resolve('ok');
+    await expect(next).resolves.toMatchObject({ text: 'ok' });
+    expect(pool.getMetrics()).toMatchObject({ workers: 1, completed: 1, failed: 1 });
+  });
+
+  it('fails a job that hangs and replaces its worker', async () => {
+    const pool = createPool({ size: 1, jobTimeout: 20 });
+    await expect(pool.recognize(Buffer.from('stuck'))).rejects.toThrow('OCR job timed out after 20ms');
+    await tick();
+
+    expect(fakes.workers[0].terminated).toBe(true);
+    expect(pool.getMetrics()).toMatchObject({ status: 'ready', workers: 1, busy: 0 });
+  });
+
+  it('fails the queue and starts over when no worker can be replaced', async () => {
+    const pool = createPool({ size: 1 });
+    const failing = pool.recognize(Buffer.from('bad'));
+    const waiting = pool.recognize(Buffer.from('waiting'));
+    await tick();
+
+    fakes.failStarts = 1;
+    fakes.workers[0].jobs[0].reject('RuntimeError: Aborted()');
+    await expect(failing).rejects.toThrow('RuntimeError: Aborted()');
+    await expect(waiting).rejects.toThrow('worker failed to start');
+    expect(pool.getMetrics()).toMatchObject({ status: 'idle', workers: 0, queued: 0 });
+
+    const retried = pool.recognize(Buffer.from('retry'));
+    await tick();
+    fakes.workers[1].jobs[0].resolve('back');
+    await expect(retried).resolves.toMatchObject({ text: 'back' });
+  });
+
+  it('fails what is still queued when shutdown times out', async () => {
+    const pool = new OCRWorkerPool({ size: 1, maxQueue: 10, shutdownTimeout: 20, jobTimeout: 60000 });
+    const running = pool.recognize(Buffer.from('running'));
+    const queued = pool.recognize(Buffer.from('queued'));
+    await tick();
+
+    await pool.shutdown();
+    await expect(queued).rejects.toThrow('OCR is unavailable while the server shuts down');
+    expect(fakes.workers[0].terminated).toBe(true);
+    expect(pool.getMetrics().status).toBe('stopped');
+    void running.catch(() => undefined);
+  });
+});
@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { apiRateLimiter } from '../server/middleware/rateLimit';
+import { createApp, registerAgent } from './helpers/app';
+
+type Agent = Awaited<ReturnType<typeof registerAgent>>['agent'];
+
+describe('API rate limit', () => {
+  let app: Express;
+  let owner: Agent;
+
+  beforeAll(async () => {
+    app = await createApp();
+    ({ agent: owner } = await registerAgent(app, 'rate-limit-owner'));
+  });
+
+  it('answers 429 with Retry-After and the rate limit headers once the bucket is empty', async () => {
+    const { id, key } = (await owner.post('/api/api-keys').send({ name: 'script', scopes: ['read'] }).expect(201)).body;
+    const { capacity, windowSeconds } = apiRateLimiter.options;
+    for (let i = 0; i < capacity; i++) {
+      apiRateLimiter.take(`key:${id}`);
+    }
+
+    const response = await request(app).get('/api/results').set('Authorization', `Bearer ${key}`).expect(429);
+    expect(response.body).toMatchObject({ message: 'Too many requests', retryAfter: expect.any(Number) });
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    expect(response.headers['ratelimit-limit']).toBe(String(capacity));
+    expect(response.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(response.headers['ratelimit-reset'])).toBeGreaterThan(0);
+    expect(response.headers['ratelimit-policy']).toBe(`${capacity};w=${windowSeconds}`);
+
+    // The key's bucket is its own, the owner's session is still served
+    const served = await owner.get('/api/results').expect(200);
+    expect(Number(served.headers['ratelimit-remaining'])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,185 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { storage } from '../server/storage';
+import { createApp, registerAgent } from './helpers/app';
+
+type Agent = ReturnType<typeof request.agent>;
+
+const forbidden = (error: string) => ({ message: 'Forbidden', error });
+
+describe('role checks', () => {
+  let app: Express;
+  let admin: Agent;
+  let analyst: Agent;
+  let otherAnalyst: Agent;
+  let viewer: Agent;
+  let operator: Agent;
+
+  // Uploads a text file into the current workspace and returns its result id
+  async function upload(agent: Agent, name = 'notes.txt'): Promise<string> {
+    const response = await agent
+      .post('/api/upload')
+      .attach('files', Buffer.from('Quarterly numbers look good.\n'), { filename: name, contentType: 'text/plain' })
+      .expect(202);
+    return response.body.results[0].id;
+  }
+
+  beforeAll(async () => {
+    app = await createApp();
+    ({ agent: admin } = await registerAgent(app, 'rbac-admin'));
+    ({ agent: analyst } = await registerAgent(app, 'rbac-analyst'));
+    ({ agent: otherAnalyst } = await registerAgent(app, 'rbac-analyst2'));
+    ({ agent: viewer } = await registerAgent(app, 'rbac-viewer'));
+    const registered = await registerAgent(app, 'rbac-operator');
+    operator = registered.agent;
+    await storage.setOperator(registered.user.id, true);
+
+    // Everyone joins the admin's personal workspace and switches to it
+    const [workspace] = (await admin.get('/api/workspaces').expect(200)).body;
+    const members: [Agent, string, string][] = [
+      [analyst, 'rbac-analyst', 'analyst'],
+      [otherAnalyst, 'rbac-analyst2', 'analyst'],
+      [viewer, 'rbac-viewer', 'viewer']
+    ];
+    for (const [agent, username, role] of members) {
+      await admin.post(`/api/workspaces/${workspace.id}/members`).send({ username, role }).expect(200);
+      await agent.post(`/api/workspaces/${workspace.id}/select`).expect(204);
+    }
+  });
+
+  it('answers 401 without a session', async () => {
+    const response = await request(app).get('/api/results').expect(401);
+    expect(response.body).toEqual({ message: 'Authentication required' });
+  });
+
+  describe('upload', () => {
+    it('refuses viewers', async () => {
+      const response = await viewer
+        .post('/api/upload')
+        .attach('files', Buffer.from('text'), { filename: 'a.txt', contentType: 'text/plain' })
+        .expect(403);
+      expect(response.body).toEqual(forbidden('Requires the analyst role in this workspace'));
+    });
+
+    it('allows analysts and admins', async () => {
+      await upload(analyst);
+      await upload(admin);
+    });
+
+    it('lets viewers read what was uploaded', async () => {
+      const response = await viewer.get('/api/results').expect(200);
+      expect(response.body.total).toBeGreaterThan(0);
+    });
+  });
+
+  describe('delete', () => {
+    it('lets analysts delete their own results', async () => {
+      const id = await upload(analyst);
+      await analyst.delete(`/api/results/${id}`).expect(200);
+      await analyst.get(`/api/results/${id}`).expect(404);
+    });
+
+    it("refuses analysts another member's results", async () => {
+      const id = await upload(otherAnalyst);
+      const response = await analyst.delete(`/api/results/${id}`).expect(403);
+      expect(response.body).toEqual(forbidden('Requires the admin role in this workspace'));
+      await analyst.get(`/api/results/${id}`).expect(200);
+    });
+
+    it('refuses viewers', async () => {
+      const id = await upload(analyst);
+      const response = await viewer.delete(`/api/results/${id}`).expect(403);
+      expect(response.body).toEqual(forbidden('Requires the analyst role in this workspace'));
+    });
+
+    it("lets admins delete anyone's results", async () => {
+      const id = await upload(otherAnalyst);
+      await admin.delete(`/api/results/${id}`).expect(200);
+    });
+  });
+
+  describe('clear all', () => {
+    it('refuses analysts and viewers', async () => {
+      for (const agent of [analyst, viewer]) {
+        const response = await agent.delete('/api/results').expect(403);
+        expect(response.body).toEqual(forbidden('Requires the admin role in this workspace'));
+      }
+    });
+
+    it('lets admins clear the workspace', async () => {
+      await upload(analyst);
+      await admin.delete('/api/results').expect(200);
+      const response = await viewer.get('/api/results').expect(200);
+      expect(response.body.total).toBe(0);
+    });
+  });
+
+  describe('OCR word corrections', () => {
+    it('refuses viewers', async () => {
+      const id = await upload(analyst);
+      const response = await viewer.patch(`/api/results/${id}/ocr-words/0`).send({ text: 'word' }).expect(403);
+      expect(response.body).toEqual(forbidden('Requires the analyst role in this workspace'));
+    });
+
+    it("refuses analysts another member's results", async () => {
+      const id = await upload(otherAnalyst);
+      const response = await analyst.patch(`/api/results/${id}/ocr-words/0`).send({ text: 'word' }).expect(403);
+      expect(response.body).toEqual(forbidden('Requires the admin role in this workspace'));
+    });
+  });
+
+  describe('audit trail', () => {
+    it('refuses analysts and viewers', async () => {
+      for (const agent of [analyst, viewer]) {
+        for (const path of ['/api/audit', '/api/audit/export.csv']) {
+          const response = await agent.get(path).expect(403);
+          expect(response.body).toEqual(forbidden('Requires the admin role in this workspace'));
+        }
+      }
+    });
+
+    it('lets admins read and export it', async () => {
+      await admin.get('/api/audit').expect(200);
+      await admin.get('/api/audit/export.csv').expect(200);
+    });
+  });
+
+  describe('logs', () => {
+    const notOperator = forbidden('Requires a server operator account');
+
+    it('refuses workspace admins that are not operators', async () => {
+      expect((await admin.get('/api/logs').expect(403)).body).toEqual(notOperator);
+      expect((await admin.get('/api/logs/stats').expect(403)).body).toEqual(notOperator);
+      expect((await admin.get('/api/logs/stream').expect(403)).body).toEqual(notOperator);
+      expect((await admin.delete('/api/logs').expect(403)).body).toEqual(notOperator);
+    });
+
+    it('refuses every other workspace role', async () => {
+      for (const agent of [analyst, viewer]) {
+        expect((await agent.get('/api/logs').expect(403)).body).toEqual(notOperator);
+        expect((await agent.get('/api/logs/stream').expect(403)).body).toEqual(notOperator);
+        expect((await agent.delete('/api/logs').expect(403)).body).toEqual(notOperator);
+      }
+    });
+
+    it('lets operators read and clear them', async () => {
+      const response = await operator.get('/api/logs').expect(200);
+      expect(Array.isArray(response.body.logs)).toBe(true);
+      await operator.get('/api/logs/stats').expect(200);
+      await operator.delete('/api/logs').expect(200);
+    });
+  });
+
+  describe('audit chain verification', () => {
+    it('refuses workspace admins that are not operators', async () => {
+      const response = await admin.get('/api/audit/verify').expect(403);
+      expect(response.body).toEqual(forbidden('Requires a server operator account'));
+    });
+
+    it('lets operators verify the chain', async () => {
+      const response = await operator.get('/api/audit/verify').expect(200);
+      expect(response.body.valid).toBe(true);
+    });
+  });
+});
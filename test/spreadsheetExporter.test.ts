@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import type { FileProcessingResult } from '@shared/schema';
+import { writeResultsCsv, writeResultsXlsx } from '../server/utils/spreadsheetExporter';
+
+const result = {
+  id: 'r1',
+  originalName: 'post.txt',
+  mimeType: 'text/plain',
+  fileSize: 42,
+  status: 'completed',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+  extractedText: 'Thanks @jane_doe and @sam for #OpenSource',
+  wordCount: 7,
+  characterCount: 41,
+  processingTime: 5,
+  errorMessage: null,
+  analysis: null
+} as FileProcessingResult;
+
+async function* batches() {
+  yield [result];
+}
+
+async function exported(write: (rows: AsyncIterable<FileProcessingResult[]>, out: PassThrough) => Promise<void>): Promise<Buffer> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', chunk => chunks.push(chunk));
+  await write(batches(), out);
+  return Buffer.concat(chunks);
+}
+
+describe('results export', () => {
+  it('keeps # and @ on tags in CSV, quoting a leading @', async () => {
+    const [header, row] = (await exported(writeResultsCsv)).toString('utf8').split('\r\n');
+    const columns = header.split(',');
+    const cells = row.split(',');
+    expect(cells[columns.indexOf('Hashtags')]).toBe('#OpenSource');
+    expect(cells[columns.indexOf('Mentions')]).toBe("'@jane_doe; @sam");
+  });
+
+  it('writes tags as plain strings in XLSX', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await exported(writeResultsXlsx));
+    const sheet = workbook.getWorksheet('Results')!;
+    const headers = sheet.getRow(1).values as string[];
+    const cell = (header: string) => sheet.getRow(2).getCell(headers.indexOf(header));
+    expect(cell('Hashtags').value).toBe('#OpenSource');
+    expect(cell('Mentions').value).toBe('@jane_doe; @sam');
+    expect(cell('Mentions').type).toBe(ExcelJS.ValueType.String);
+  });
+});
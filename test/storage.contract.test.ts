@@ -0,0 +1,364 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { randomUUID } from 'crypto';
+import { DatabaseStorage, MemStorage, type IStorage } from '../server/storage';
+import { parseSearchQuery } from '../server/utils/textSearch';
+import { verifyAuditChain } from '../server/utils/auditChain';
+import type { InsertFileProcessingResult, NewAuditEntry } from '@shared/schema';
+import { startTestDatabase, type TestDatabase } from './helpers/postgres';
+
+// The same expectations for both backends, so the in-memory fallback behaves like Postgres
+const backends: Array<{ name: string; start(): Promise<{ storage: IStorage; close(): Promise<void> }> }> = [
+  { name: 'MemStorage', start: async () => ({ storage: new MemStorage(), close: async () => {} }) },
+  {
+    name: 'DatabaseStorage',
+    start: async () => {
+      const database: TestDatabase = await startTestDatabase();
+      return { storage: new DatabaseStorage(database.db), close: () => database.close() };
+    }
+  }
+];
+
+describe.each(backends)('$name', ({ start }) => {
+  let storage: IStorage;
+  let close: () => Promise<void>;
+
+  beforeAll(async () => {
+    ({ storage, close } = await start());
+  });
+
+  afterAll(async () => {
+    await close();
+  });
+
+  // Every test works in its own accounts and workspaces, nothing has to be cleaned up between them
+  const unique = (name: string) => `${name}-${randomUUID().slice(0, 8)}`;
+
+  async function createUser(name = 'user') {
+    return storage.createUser({ username: unique(name), password: 'hash.salt' });
+  }
+
+  async function createWorkspace() {
+    const owner = await createUser('owner');
+    const workspace = await storage.createWorkspace(unique('workspace'), owner.id);
+    return { owner, workspace };
+  }
+
+  async function createResult(workspaceId: string, overrides: Partial<InsertFileProcessingResult> = {}) {
+    return storage.createFileProcessingResult({
+      filename: unique('file'),
+      originalName: 'notes.txt',
+      fileSize: 100,
+      mimeType: 'text/plain',
+      status: 'completed',
+      extractedText: null,
+      wordCount: null,
+      characterCount: null,
+      processingTime: null,
+      errorMessage: null,
+      metadata: null,
+      workspaceId,
+      ...overrides
+    });
+  }
+
+  describe('users', () => {
+    it('finds users by id and username', async () => {
+      const user = await createUser();
+      expect(user.isOperator).toBe(false);
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(user.username)).toEqual(user);
+      expect(await storage.getUser(randomUUID())).toBeUndefined();
+      expect(await storage.getUserByUsername(unique('nobody'))).toBeUndefined();
+    });
+
+    it('grants and revokes the operator flag', async () => {
+      const user = await createUser();
+      expect((await storage.setOperator(user.id, true))?.isOperator).toBe(true);
+      expect((await storage.getUser(user.id))?.isOperator).toBe(true);
+      expect((await storage.setOperator(user.id, false))?.isOperator).toBe(false);
+      expect(await storage.setOperator(randomUUID(), true)).toBeUndefined();
+    });
+  });
+
+  describe('workspaces', () => {
+    it('makes the creator an admin', async () => {
+      const { owner, workspace } = await createWorkspace();
+      expect(await storage.getWorkspace(workspace.id)).toEqual(workspace);
+      expect((await storage.getMembership(workspace.id, owner.id))?.role).toBe('admin');
+      const workspaces = await storage.getWorkspacesForUser(owner.id);
+      expect(workspaces).toEqual([{ ...workspace, role: 'admin' }]);
+    });
+
+    it('adds members and changes their role', async () => {
+      const { owner, workspace } = await createWorkspace();
+      const member = await createUser('member');
+      await storage.setWorkspaceMember(workspace.id, member.id, 'viewer');
+      await storage.setWorkspaceMember(workspace.id, member.id, 'analyst');
+
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      expect(members.map(({ userId, username, role }) => ({ userId, username, role })).sort((a, b) => a.role.localeCompare(b.role))).toEqual([
+        { userId: owner.id, username: owner.username, role: 'admin' },
+        { userId: member.id, username: member.username, role: 'analyst' }
+      ]);
+      expect((await storage.getWorkspacesForUser(member.id)).map(w => w.role)).toEqual(['analyst']);
+    });
+
+    it('removes members once', async () => {
+      const { workspace } = await createWorkspace();
+      const member = await createUser('member');
+      await storage.setWorkspaceMember(workspace.id, member.id, 'viewer');
+      expect(await storage.removeWorkspaceMember(workspace.id, member.id)).toBe(true);
+      expect(await storage.removeWorkspaceMember(workspace.id, member.id)).toBe(false);
+      expect(await storage.getMembership(workspace.id, member.id)).toBeUndefined();
+    });
+  });
+
+  describe('API keys', () => {
+    it('looks keys up by hash and lists them per user', async () => {
+      const { owner, workspace } = await createWorkspace();
+      const keyHash = unique('hash');
+      const key = await storage.createApiKey({ userId: owner.id, workspaceId: workspace.id, name: 'Script', prefix: 'sma_abcd', keyHash, scopes: ['read', 'upload'] });
+      expect(key.lastUsedAt).toBeNull();
+      expect(await storage.getApiKeyByHash(keyHash)).toEqual(key);
+      expect(await storage.getApiKeysForUser(owner.id)).toEqual([key]);
+
+      await storage.touchApiKey(key.id);
+      expect((await storage.getApiKeyByHash(keyHash))?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it("only deletes the user's own keys", async () => {
+      const { owner, workspace } = await createWorkspace();
+      const other = await createUser('other');
+      const key = await storage.createApiKey({ userId: owner.id, workspaceId: workspace.id, name: 'Script', prefix: 'sma_abcd', keyHash: unique('hash'), scopes: ['read'] });
+      expect(await storage.deleteApiKey(other.id, key.id)).toBe(false);
+      expect(await storage.deleteApiKey(owner.id, key.id)).toBe(true);
+      expect(await storage.getApiKeysForUser(owner.id)).toEqual([]);
+    });
+  });
+
+  describe('usage', () => {
+    it('adds to the counters of one workspace and day', async () => {
+      const { workspace } = await createWorkspace();
+      expect(await storage.getUsage(workspace.id, '2026-01-01')).toEqual({ files: 0, bytes: 0, ocrPages: 0 });
+      await storage.addUsage(workspace.id, '2026-01-01', { files: 2, bytes: 300 });
+      expect(await storage.addUsage(workspace.id, '2026-01-01', { files: 1, ocrPages: 4 })).toEqual({ files: 3, bytes: 300, ocrPages: 4 });
+      expect(await storage.getUsage(workspace.id, '2026-01-02')).toEqual({ files: 0, bytes: 0, ocrPages: 0 });
+    });
+  });
+
+  describe('results', () => {
+    it('keeps zero counts and fills in defaults', async () => {
+      const { workspace } = await createWorkspace();
+      const result = await createResult(workspace.id, { extractedText: '', wordCount: 0, characterCount: 0, processingTime: 0 });
+      expect(result).toMatchObject({ wordCount: 0, characterCount: 0, processingTime: 0, ownerId: null, analysis: null });
+      expect(result.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getFileProcessingResult(workspace.id, result.id)).toEqual(result);
+    });
+
+    it('only sees results of the given workspace', async () => {
+      const { workspace } = await createWorkspace();
+      const { workspace: other } = await createWorkspace();
+      const result = await createResult(workspace.id);
+
+      expect(await storage.getFileProcessingResult(other.id, result.id)).toBeUndefined();
+      expect(await storage.getAllFileProcessingResults(other.id)).toEqual([]);
+      expect(await storage.updateFileProcessingResult(other.id, result.id, { status: 'failed' })).toBeUndefined();
+      expect(await storage.deleteFileProcessingResult(other.id, result.id)).toBe(false);
+      await storage.deleteAllFileProcessingResults(other.id);
+      expect(await storage.getFileProcessingResult(workspace.id, result.id)).toEqual(result);
+    });
+
+    it('filters, sorts and pages', async () => {
+      const { workspace } = await createWorkspace();
+      await createResult(workspace.id, { originalName: 'b.pdf', mimeType: 'application/pdf', fileSize: 300 });
+      await createResult(workspace.id, { originalName: 'a.png', mimeType: 'image/png', fileSize: 200, status: 'failed' });
+      await createResult(workspace.id, { originalName: 'c.txt', fileSize: 100, extractedText: 'Invoice total' });
+      await createResult(workspace.id, {
+        originalName: 'd.txt',
+        fileSize: 50,
+        analysis: { version: 1, wordCount: 1, characterCount: 4, sentenceCount: 1, paragraphCount: 1, language: 'fr', containsPII: true }
+      });
+
+      const names = async (query: Parameters<IStorage['queryFileProcessingResults']>[1]) =>
+        (await storage.queryFileProcessingResults(workspace.id, query)).results.map(result => result.originalName);
+
+      expect(await names({ sort: 'originalName', order: 'asc' })).toEqual(['a.png', 'b.pdf', 'c.txt', 'd.txt']);
+      expect(await names({ sort: 'fileSize', order: 'desc' })).toEqual(['b.pdf', 'a.png', 'c.txt', 'd.txt']);
+      expect(await names({ type: 'image' })).toEqual(['a.png']);
+      expect(await names({ mimeType: 'text/*', sort: 'originalName', order: 'asc' })).toEqual(['c.txt', 'd.txt']);
+      expect(await names({ status: 'failed' })).toEqual(['a.png']);
+      expect(await names({ q: 'INVOICE' })).toEqual(['c.txt']);
+      expect(await names({ q: 'b.p' })).toEqual(['b.pdf']);
+      expect(await names({ language: 'fr' })).toEqual(['d.txt']);
+      expect(await names({ hasPII: true })).toEqual(['d.txt']);
+      expect(await names({ hasPII: false, sort: 'originalName', order: 'asc' })).toEqual(['a.png', 'b.pdf', 'c.txt']);
+
+      const page = await storage.queryFileProcessingResults(workspace.id, { sort: 'originalName', order: 'asc', limit: 3, offset: 1 });
+      expect(page.results.map(result => result.originalName)).toEqual(['b.pdf', 'c.txt', 'd.txt']);
+      expect(page).toMatchObject({ total: 4, limit: 3, offset: 1 });
+      expect(page.nextOffset).toBeUndefined();
+      expect((await storage.queryFileProcessingResults(workspace.id, { limit: 2 })).nextOffset).toBe(2);
+    });
+
+    it('breaks ties by id in the sort order', async () => {
+      const { workspace } = await createWorkspace();
+      const createdAt = new Date('2026-01-01T00:00:00.000Z');
+      const ids: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        const result = await createResult(workspace.id);
+        // Not insertable, set afterwards so every backend stores the same instant as separate values
+        await storage.updateFileProcessingResult(workspace.id, result.id, { createdAt: new Date(createdAt) } as Partial<InsertFileProcessingResult>);
+        ids.push(result.id);
+      }
+      ids.sort();
+
+      const order = async (direction: 'asc' | 'desc') =>
+        (await storage.queryFileProcessingResults(workspace.id, { sort: 'createdAt', order: direction })).results.map(result => result.id);
+      expect(await order('asc')).toEqual(ids);
+      expect(await order('desc')).toEqual([...ids].reverse());
+    });
+
+    it('streams every match in batches', async () => {
+      const { workspace } = await createWorkspace();
+      for (let i = 0; i < 5; i++) {
+        await createResult(workspace.id, { originalName: `${i}.txt` });
+      }
+      const batches = [];
+      for await (const batch of storage.streamFileProcessingResults(workspace.id, {}, 2)) {
+        batches.push(batch.map(result => result.originalName));
+      }
+      expect(batches.map(batch => batch.length)).toEqual([2, 2, 1]);
+      expect(batches.flat().sort()).toEqual(['0.txt', '1.txt', '2.txt', '3.txt', '4.txt']);
+    });
+
+    it('updates and deletes', async () => {
+      const { workspace } = await createWorkspace();
+      const result = await createResult(workspace.id, { status: 'pending' });
+      const updated = await storage.updateFileProcessingResult(workspace.id, result.id, { status: 'completed', wordCount: 2 });
+      expect(updated).toMatchObject({ id: result.id, status: 'completed', wordCount: 2 });
+      expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(result.updatedAt.getTime());
+
+      expect(await storage.deleteFileProcessingResult(workspace.id, result.id)).toBe(true);
+      expect(await storage.getFileProcessingResult(workspace.id, result.id)).toBeUndefined();
+
+      await createResult(workspace.id);
+      await storage.deleteAllFileProcessingResults(workspace.id);
+      expect(await storage.getAllFileProcessingResults(workspace.id)).toEqual([]);
+    });
+  });
+
+  describe('search', () => {
+    let workspaceId: string;
+
+    beforeAll(async () => {
+      ({ workspace: { id: workspaceId } } = await createWorkspace());
+      await createResult(workspaceId, { originalName: 'report.txt', extractedText: 'The quarterly report shows running costs fell.' });
+      await createResult(workspaceId, { originalName: 'cat.txt', extractedText: 'The cat sat on the mat.' });
+      await createResult(workspaceId, {
+        originalName: 'es.txt',
+        extractedText: 'Los informes trimestrales de la empresa.',
+        analysis: { version: 1, wordCount: 6, characterCount: 41, sentenceCount: 1, paragraphCount: 1, language: 'es' }
+      });
+    });
+
+    const found = async (query: string) => {
+      const { results, total } = await storage.searchFileProcessingResults(workspaceId, parseSearchQuery(query), { limit: 10, offset: 0 });
+      expect(total).toBe(results.length);
+      return results.map(({ result }) => result.originalName).sort();
+    };
+
+    it('matches words by stem', async () => {
+      expect(await found('runs')).toEqual(['report.txt']);
+      expect(await found('reports cost')).toEqual(['report.txt']);
+      expect(await found('informe trimestral')).toEqual(['es.txt']);
+    });
+
+    it('matches phrases in order', async () => {
+      expect(await found('"quarterly report"')).toEqual(['report.txt']);
+      expect(await found('"report quarterly"')).toEqual([]);
+    });
+
+    it('matches prefixes of stems', async () => {
+      expect(await found('quart*')).toEqual(['report.txt']);
+      expect(await found('trim*')).toEqual(['es.txt']);
+    });
+
+    it('leaves out stop words as Postgres does', async () => {
+      expect(await found('the')).toEqual([]);
+      expect(await found('the cat')).toEqual(['cat.txt']);
+      expect(await found('"cat on the mat"')).toEqual([]);
+      expect(await found('"sat on the mat"')).toEqual(['cat.txt']);
+      expect(await found('"sat the on mat"')).toEqual(['cat.txt']);
+    });
+
+    it('ranks better matches first and pages', async () => {
+      await createResult(workspaceId, { originalName: 'mats.txt', extractedText: 'Mat after mat after mat.' });
+      const { results, total } = await storage.searchFileProcessingResults(workspaceId, parseSearchQuery('mat'), { limit: 1, offset: 0 });
+      expect(total).toBe(2);
+      expect(results.map(({ result }) => result.originalName)).toEqual(['mats.txt']);
+      expect(results[0].score).toBeGreaterThan(0);
+    });
+
+    it('forgets deleted and changed text', async () => {
+      const result = await createResult(workspaceId, { originalName: 'temp.txt', extractedText: 'Zebra crossing' });
+      expect(await found('zebra')).toEqual(['temp.txt']);
+      await storage.updateFileProcessingResult(workspaceId, result.id, { extractedText: 'Horse crossing' });
+      expect(await found('zebra')).toEqual([]);
+      await storage.deleteFileProcessingResult(workspaceId, result.id);
+      expect(await found('horse')).toEqual([]);
+    });
+  });
+
+  describe('audit trail', () => {
+    const entry = (workspaceId: string, actorId: string, overrides: Partial<NewAuditEntry> = {}): NewAuditEntry => ({
+      timestamp: new Date(),
+      workspaceId,
+      actorId,
+      actorName: 'owner',
+      apiKeyId: null,
+      action: 'result.view',
+      resultId: null,
+      ip: '127.0.0.1',
+      userAgent: 'vitest',
+      details: null,
+      ...overrides
+    });
+
+    it('chains entries by hash', async () => {
+      const { owner, workspace } = await createWorkspace();
+      const first = await storage.appendAuditEntry(entry(workspace.id, owner.id));
+      const second = await storage.appendAuditEntry(entry(workspace.id, owner.id, { details: { at: new Date(0), format: 'csv' } }));
+      expect(second.id).toBeGreaterThan(first.id);
+      expect(second.prevHash).toBe(first.hash);
+      expect(await verifyAuditChain(storage.streamAuditChain(1))).toMatchObject({ valid: true });
+    });
+
+    it('filters and pages the entries of one workspace, newest first', async () => {
+      const { owner, workspace } = await createWorkspace();
+      const { workspace: other } = await createWorkspace();
+      const resultId = randomUUID();
+      await storage.appendAuditEntry(entry(workspace.id, owner.id, { action: 'result.upload', resultId, timestamp: new Date('2026-01-01T00:00:00Z') }));
+      await storage.appendAuditEntry(entry(workspace.id, owner.id, { resultId, timestamp: new Date('2026-01-02T00:00:00Z') }));
+      await storage.appendAuditEntry(entry(workspace.id, owner.id, { action: 'result.delete', resultId, timestamp: new Date('2026-01-03T00:00:00Z') }));
+      await storage.appendAuditEntry(entry(other.id, owner.id));
+
+      const actions = async (filters: Parameters<IStorage['queryAuditEntries']>[1]) =>
+        (await storage.queryAuditEntries(workspace.id, filters, { limit: 10, offset: 0 })).entries.map(e => e.action);
+
+      expect(await actions({})).toEqual(['result.delete', 'result.view', 'result.upload']);
+      expect(await actions({ action: 'result.view' })).toEqual(['result.view']);
+      expect(await actions({ resultId })).toHaveLength(3);
+      expect(await actions({ actorId: randomUUID() })).toEqual([]);
+      expect(await actions({ since: new Date('2026-01-02T00:00:00Z'), until: new Date('2026-01-02T23:59:59Z') })).toEqual(['result.view']);
+
+      const page = await storage.queryAuditEntries(workspace.id, {}, { limit: 2, offset: 0 });
+      expect(page).toMatchObject({ total: 3, limit: 2, offset: 0, nextOffset: 2 });
+
+      const streamed = [];
+      for await (const batch of storage.streamAuditEntries(workspace.id, {}, 2)) {
+        streamed.push(...batch.map(e => e.action));
+      }
+      expect(streamed).toEqual(['result.delete', 'result.view', 'result.upload']);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { storage } from '../server/storage';
+import { DAILY_QUOTAS, QuotaExceededError, reserveOcrPage, usageDay } from '../server/utils/usageQuotas';
+
+describe('reserveOcrPage', () => {
+  const limit = DAILY_QUOTAS.ocrPages;
+  afterEach(() => {
+    DAILY_QUOTAS.ocrPages = limit;
+  });
+
+  it('charges one page per call until the quota is used up', async () => {
+    DAILY_QUOTAS.ocrPages = 2;
+    await reserveOcrPage('quota-serial');
+    await reserveOcrPage('quota-serial');
+    await expect(reserveOcrPage('quota-serial')).rejects.toBeInstanceOf(QuotaExceededError);
+    expect((await storage.getUsage('quota-serial', usageDay())).ocrPages).toBe(2);
+  });
+
+  it('lets concurrent jobs recognize no more pages than the quota between them', async () => {
+    DAILY_QUOTAS.ocrPages = 3;
+    const outcomes = await Promise.allSettled(Array.from({ length: 8 }, () => reserveOcrPage('quota-concurrent')));
+
+    expect(outcomes.filter(outcome => outcome.status === 'fulfilled')).toHaveLength(3);
+    for (const outcome of outcomes.filter(outcome => outcome.status === 'rejected')) {
+      expect((outcome as PromiseRejectedResult).reason).toMatchObject({ metric: 'ocrPages' });
+    }
+    expect((await storage.getUsage('quota-concurrent', usageDay())).ocrPages).toBe(3);
+  });
+});